@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { cleanupExpiredObjects, type CleanupResult } from "../../lib/retention.js";
+import { logger } from "../../lib/logger.js";
+
+// Leave headroom under the 300s maxDuration to report what was removed
+const CRON_BUDGET_MS = 240_000;
+
+// Deletes stored objects that are past their retention period (`?dryRun=1` only reports)
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Vercel Cron sends the CRON_SECRET as a bearer token; the route stays closed until one is set
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const dryRun = req.query.dryRun === "1" || req.query.dryRun === "true";
+
+  let result: CleanupResult;
+  try {
+    result = await logger.session("cron:cleanup", {}, async () => {
+      try {
+        const cleanup = await cleanupExpiredObjects({
+          deadline: Date.now() + CRON_BUDGET_MS,
+          dryRun,
+        });
+        logger.info("Cleanup finished", { dryRun, ...cleanup });
+        return cleanup;
+      } catch (error) {
+        logger.error("Cleanup failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    });
+  } catch {
+    res.status(500).json({ ok: false, error: "Cleanup failed" });
+    return;
+  }
+
+  const { reports, complete, migration } = result;
+  const deleted = reports.reduce((sum, report) => sum + report.deleted, 0);
+  res.status(200).json({ ok: true, dryRun, complete, deleted, removed: reports, migration });
+}
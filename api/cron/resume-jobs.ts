@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { listResumableJobs } from "../../lib/jobs.js";
+import { resumeJob } from "../../lib/process-thread.js";
+import { logger } from "../../lib/logger.js";
+
+// Leave headroom under the 300s maxDuration so the last job can save its progress
+const CRON_BUDGET_MS = 240_000;
+
+// Picks up OCR jobs that ran out of time in an earlier invocation
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Vercel Cron sends the CRON_SECRET as a bearer token; the route stays closed until one is set
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const deadline = Date.now() + CRON_BUDGET_MS;
+
+  const resumed: { jobId: string; channel: string; threadTs: string; message: string }[] = [];
+  await logger.session("cron:resume-jobs", {}, async () => {
+    const jobs = await listResumableJobs();
+    logger.info("Found resumable jobs", { count: jobs.length });
+
+    for (const job of jobs) {
+      if (Date.now() >= deadline) {
+        break;
+      }
+      try {
+        const result = await logger.context(
+          { channel: job.channel, threadTs: job.threadTs },
+          () => resumeJob(job, deadline)
+        );
+        resumed.push({
+          jobId: job.id,
+          channel: job.channel,
+          threadTs: job.threadTs,
+          message: result.message,
+        });
+      } catch (error) {
+        logger.error("Failed to resume job", {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  });
+
+  res.status(200).json({ ok: true, resumed });
+}
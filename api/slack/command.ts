@@ -1,6 +1,19 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { waitUntil } from "@vercel/functions";
 import { verifySlackSignature } from "../../lib/slack.js";
-import { processThread } from "../../lib/process-thread.js";
+import {
+  processThread,
+  cancelJob,
+  finalizeCancelledJobs,
+  getJobStatus,
+  repostResults,
+  exportResults,
+} from "../../lib/process-thread.js";
+import { setChannelDefaultLanguage } from "../../lib/language.js";
+import { parseCommandText, formatCommandHelp } from "../../lib/command-parser.js";
+import { setChannelAutoOCR } from "../../lib/auto-ocr.js";
+import { forget, type ForgetScope } from "../../lib/forget.js";
+import { logger } from "../../lib/logger.js";
 
 // Disable body parsing to get raw body for signature verification
 export const config = {
@@ -33,6 +46,43 @@ function parseUrlEncoded(body: string): Record<string, string> {
   return result;
 }
 
+function replyEphemeral(res: VercelResponse, text: string): void {
+  res.status(200).json({ response_type: "ephemeral", text });
+}
+
+// Follow up after the initial acknowledgement through the command's response_url
+async function sendDelayedResponse(responseUrl: string | undefined, text: string): Promise<void> {
+  if (!responseUrl) {
+    return;
+  }
+  await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ response_type: "ephemeral", text }),
+  });
+}
+
+// Deleting can mean scanning stored logs, so acknowledge first and report the counts later
+async function forgetAndReport(
+  res: VercelResponse,
+  responseUrl: string | undefined,
+  scope: ForgetScope,
+  userId: string,
+  requestedIn: string
+): Promise<void> {
+  replyEphemeral(res, "Deleting stored data...");
+  try {
+    await sendDelayedResponse(responseUrl, await forget(scope, userId, requestedIn));
+  } catch (error) {
+    logger.error("Failed to forget data", {
+      scope,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    await sendDelayedResponse(responseUrl, "Failed to delete stored data. Please try again.");
+  }
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -55,38 +105,126 @@ export default async function handler(
   const signingSecret = process.env.SLACK_SIGNING_SECRET;
 
   if (!signingSecret) {
-    console.error("SLACK_SIGNING_SECRET not configured");
+    logger.error("SLACK_SIGNING_SECRET not configured");
     res.status(500).json({ error: "Server configuration error" });
     return;
   }
 
   // Verify signature
   if (!verifySlackSignature(signingSecret, signature, timestamp, rawBody)) {
-    console.error("Invalid Slack signature");
+    logger.warn("Invalid Slack signature");
     res.status(401).json({ error: "Invalid signature" });
     return;
   }
 
-  const { channel_id, text } = payload;
+  const { channel_id, user_id, text } = payload;
+  const parsed = parseCommandText(text);
 
-  // The /ocr command must be used in a thread
-  // The 'text' field might contain the thread_ts if invoked from a thread
-  // In Slack, when you use a slash command in a thread, the thread_ts is NOT automatically provided
-  // We need to handle this differently - users need to specify thread_ts or use in thread
+  if (parsed.command === "help" || !text?.trim()) {
+    replyEphemeral(res, formatCommandHelp("slash"));
+    return;
+  }
 
-  // Parse the text for a thread_ts (format: 1234567890.123456)
-  const threadTsMatch = text?.match(/(\d+\.\d+)/);
+  if (parsed.errors.length > 0 || parsed.unknownWords.length > 0) {
+    const problems = [
+      ...parsed.errors,
+      ...(parsed.unknownWords.length > 0
+        ? [`I didn't understand ${parsed.unknownWords.map((word) => `\`${word}\``).join(", ")}.`]
+        : []),
+    ];
+    replyEphemeral(res, `${problems.join("\n")}\n\nType \`/ocr help\` for usage.`);
+    return;
+  }
 
-  if (!threadTsMatch) {
-    // If no thread_ts provided, inform user how to use the command
-    res.status(200).json({
-      response_type: "ephemeral",
-      text: "Please use `/ocr` in a thread, or provide a thread timestamp: `/ocr 1234567890.123456`\n\nTip: You can get a thread's timestamp by copying the link to the thread message.",
-    });
+  // `/ocr channel-lang=de` sets the channel's default translation language
+  if (parsed.command === "channel-lang" && parsed.channelLanguage) {
+    const message = await setChannelDefaultLanguage(channel_id, parsed.channelLanguage);
+    replyEphemeral(res, message);
+    return;
+  }
+
+  // `/ocr auto on|off` switches auto-OCR for the channel
+  if (parsed.command === "auto" && parsed.autoOCR !== undefined) {
+    const message = await setChannelAutoOCR(channel_id, parsed.autoOCR);
+    replyEphemeral(res, message);
+    return;
+  }
+
+  // `/ocr forget channel` and `/ocr forget from=@user` don't need a thread
+  if (parsed.command === "forget" && parsed.forgetScope !== "thread") {
+    const scope: ForgetScope =
+      parsed.forgetScope === "user" && parsed.fromUser
+        ? { type: "user", userId: parsed.fromUser }
+        : { type: "channel", channel: parsed.target?.channel || channel_id };
+    await forgetAndReport(res, payload.response_url, scope, user_id, channel_id);
+    return;
+  }
+
+  // Slash commands don't say which thread they were typed in, so the text must
+  // name it with a message link (which also gives the channel) or a timestamp
+  if (!parsed.target) {
+    replyEphemeral(
+      res,
+      "Which thread? Paste a link to the thread's first message (*Copy link*) or its timestamp, e.g. `/ocr https://…/archives/C123/p1712345678901234`.\n\nType `/ocr help` for usage."
+    );
+    return;
+  }
+
+  const channel = parsed.target.channel || channel_id;
+  const { threadTs } = parsed.target;
+
+  // `/ocr status <thread>` and `/ocr cancel <thread>` act on the thread's active run
+  if (parsed.command === "status") {
+    replyEphemeral(res, await getJobStatus(channel, threadTs));
     return;
   }
 
-  const threadTs = threadTsMatch[1];
+  if (parsed.command === "cancel") {
+    replyEphemeral(res, await cancelJob(channel, threadTs, user_id));
+    // Paused runs post what they completed after the acknowledgement
+    waitUntil(
+      finalizeCancelledJobs(channel, threadTs).catch((error) => {
+        logger.error("Failed to finish cancelled jobs", {
+          channel,
+          threadTs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+    );
+    return;
+  }
+
+  if (parsed.command === "forget") {
+    await forgetAndReport(
+      res,
+      payload.response_url,
+      { type: "thread", channel, threadTs },
+      user_id,
+      channel_id
+    );
+    return;
+  }
+
+  // `/ocr repost <thread>` and `/ocr export <thread>` work from saved results
+  if (parsed.command === "repost" || parsed.command === "export") {
+    replyEphemeral(res, "Looking up saved results...");
+    try {
+      const message =
+        parsed.command === "repost"
+          ? await repostResults(channel, threadTs)
+          : await exportResults(channel, threadTs, parsed.exportFormat ?? "markdown");
+      await sendDelayedResponse(payload.response_url, message);
+    } catch (error) {
+      logger.error(`Failed to ${parsed.command} results`, {
+        channel,
+        threadTs,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      await sendDelayedResponse(payload.response_url, "Failed to load saved results. Please try again.");
+    }
+    return;
+  }
 
   // Acknowledge immediately
   res.status(200).json({
@@ -96,21 +234,28 @@ export default async function handler(
 
   // Process the thread in background
   try {
-    await processThread(channel_id, threadTs);
+    await processThread(channel, threadTs, {
+      force: parsed.force,
+      targetLanguage: parsed.targetLanguage,
+      last: parsed.last,
+      translationOnly: parsed.translationOnly,
+      fromUser: parsed.fromUser,
+      afterTs: parsed.afterTs,
+      // `only-this` with a link to a reply narrows to that message
+      messageTs: parsed.onlyThisMessage
+        ? parsed.target.messageTs ?? parsed.target.threadTs
+        : undefined,
+      userId: user_id,
+    });
   } catch (error) {
-    console.error("Failed to process thread:", error);
+    logger.error("Failed to process thread", {
+      channel,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
 
     // Send error via response_url
-    const { response_url } = payload;
-    if (response_url) {
-      await fetch(response_url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          response_type: "ephemeral",
-          text: "Failed to process thread. Please try again.",
-        }),
-      });
-    }
+    await sendDelayedResponse(payload.response_url, "Failed to process thread. Please try again.");
   }
 }
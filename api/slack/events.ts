@@ -1,9 +1,41 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { waitUntil } from "@vercel/functions";
-import { put } from "@vercel/blob";
-import { verifySlackSignature, getSlackClient, getBotUserId } from "../../lib/slack.js";
-import { processThread } from "../../lib/process-thread.js";
-import { logger } from "../../lib/logger.js";
+import {
+  verifySlackSignature,
+  getSlackClient,
+  getBotUserId,
+  postMessageToThread,
+  postEphemeralToThread,
+  getFileShare,
+  getMessage,
+  type SlackFile,
+} from "../../lib/slack.js";
+import {
+  processThread,
+  cancelJob,
+  finalizeCancelledJobs,
+  getJobStatus,
+  repostResults,
+  exportResults,
+} from "../../lib/process-thread.js";
+import { logger, isLogLevelEnabled } from "../../lib/logger.js";
+import { redact } from "../../lib/redact.js";
+import { writeJson } from "../../lib/storage.js";
+import { setChannelDefaultLanguage } from "../../lib/language.js";
+import {
+  isAutoOCREnabled,
+  setChannelAutoOCR,
+  queueAutoOCR,
+  runAutoOCRWhenSettled,
+} from "../../lib/auto-ocr.js";
+import { getReactionTrigger } from "../../lib/reactions.js";
+import {
+  parseCommandText,
+  formatCommandHelp,
+  type ParsedCommand,
+} from "../../lib/command-parser.js";
+import { forget, type ForgetScope } from "../../lib/forget.js";
+import { claimEvent, getSlackRetryInfo } from "../../lib/event-dedup.js";
 
 // Disable body parsing to get raw body for signature verification
 export const config = {
@@ -21,40 +53,322 @@ async function getRawBody(req: VercelRequest): Promise<string> {
   return Buffer.concat(chunks).toString("utf8");
 }
 
-// Log every incoming request to blob for debugging
+// Capture incoming requests for debugging. Captures are debug-level entries,
+// so they follow each sink's log level, and are redacted like other log data.
 async function logRequest(rawBody: string, req: VercelRequest, extra?: Record<string, unknown>) {
+  const toStorage = isLogLevelEnabled("storage", "debug");
+  if (!toStorage && !isLogLevelEnabled("console", "debug")) {
+    return;
+  }
+
   let parsedBody: unknown;
   try {
     parsedBody = JSON.parse(rawBody);
   } catch {
     parsedBody = rawBody;
   }
-  
-  const logData = {
+
+  const logData = redact({
     timestamp: new Date().toISOString(),
     method: req.method,
     headers: {
       "content-type": req.headers["content-type"],
       "x-slack-request-timestamp": req.headers["x-slack-request-timestamp"],
-      "x-slack-signature": String(req.headers["x-slack-signature"] || "").substring(0, 20) + "...",
+      "x-slack-signature": req.headers["x-slack-signature"],
+      "x-slack-retry-num": req.headers["x-slack-retry-num"],
+      "x-slack-retry-reason": req.headers["x-slack-retry-reason"],
     },
     body: parsedBody,
     extra,
-  };
-  
-  console.log("INCOMING REQUEST:", JSON.stringify(logData, null, 2));
-  
+  });
+
+  logger.debug("Incoming request", logData);
+
+  if (!toStorage) {
+    return;
+  }
   try {
     const key = `debug/${Date.now()}-${Math.random().toString(36).substring(2, 8)}.json`;
-    await put(key, JSON.stringify(logData, null, 2), {
-      access: "public",
-      addRandomSuffix: false,
-    });
+    await writeJson(key, logData, { pretty: true });
   } catch (e) {
-    console.error("Failed to log to blob:", e);
+    logger.error("Failed to log request to storage", { error: e });
+  }
+}
+
+// Save a channel's default translation language and confirm in the thread
+async function updateChannelLanguage(
+  channel: string,
+  threadTs: string,
+  value: string
+): Promise<void> {
+  try {
+    const message = await setChannelDefaultLanguage(channel, value);
+    await postMessageToThread(getSlackClient(), channel, threadTs, message);
+  } catch (error) {
+    logger.error("Failed to update channel language", {
+      channel,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// Answer `@ocr cancel` / `@ocr status` for the thread's active run
+async function replyToJobCommand(
+  command: "cancel" | "status",
+  channel: string,
+  threadTs: string,
+  userId?: string
+): Promise<void> {
+  try {
+    const message =
+      command === "cancel"
+        ? await cancelJob(channel, threadTs, userId)
+        : await getJobStatus(channel, threadTs);
+    await postMessageToThread(getSlackClient(), channel, threadTs, message);
+    if (command === "cancel") {
+      await finalizeCancelledJobs(channel, threadTs);
+    }
+  } catch (error) {
+    logger.error(`Failed to handle ${command} command`, {
+      channel,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// Show usage or option errors only to the user who mentioned the bot
+async function replyPrivately(
+  channel: string,
+  threadTs: string,
+  userId: string | undefined,
+  text: string
+): Promise<void> {
+  try {
+    const client = getSlackClient();
+    if (userId) {
+      await postEphemeralToThread(client, channel, threadTs, userId, text);
+    } else {
+      await postMessageToThread(client, channel, threadTs, text);
+    }
+  } catch (error) {
+    logger.error("Failed to reply to command", {
+      channel,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// `@ocr repost` / `@ocr export` work from saved results; the outcome is shown only to the requester
+async function replyWithSavedResults(
+  parsed: ParsedCommand,
+  channel: string,
+  threadTs: string,
+  userId?: string
+): Promise<void> {
+  try {
+    const message =
+      parsed.command === "repost"
+        ? await repostResults(channel, threadTs)
+        : await exportResults(channel, threadTs, parsed.exportFormat ?? "markdown");
+    await replyPrivately(channel, threadTs, userId, message);
+  } catch (error) {
+    logger.error(`Failed to handle ${parsed.command} command`, {
+      channel,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// `@ocr forget` deletes stored data about the thread, channel or a user; the
+// counts are shown only to the requester
+async function replyWithForget(
+  parsed: ParsedCommand,
+  channel: string,
+  threadTs: string,
+  userId?: string
+): Promise<void> {
+  if (!userId) {
+    return;
+  }
+  try {
+    const scope: ForgetScope =
+      parsed.forgetScope === "user" && parsed.fromUser
+        ? { type: "user", userId: parsed.fromUser }
+        : parsed.forgetScope === "channel"
+          ? { type: "channel", channel }
+          : { type: "thread", channel, threadTs };
+    await replyPrivately(channel, threadTs, userId, await forget(scope, userId, channel));
+  } catch (error) {
+    logger.error("Failed to handle forget command", {
+      channel,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// Mentions that ask for help, status, cancel or a channel setting are answered
+// without running OCR; returns null when the mention should start a run
+function handleMentionCommand(
+  parsed: ParsedCommand,
+  channel: string,
+  threadTs: string,
+  userId?: string
+): Promise<void> | null {
+  if (parsed.command === "help") {
+    return replyPrivately(channel, threadTs, userId, formatCommandHelp("mention"));
+  }
+  if (parsed.errors.length > 0) {
+    return replyPrivately(
+      channel,
+      threadTs,
+      userId,
+      `${parsed.errors.join("\n")}\n\nMention me with \`help\` for usage.`
+    );
+  }
+  if (parsed.command === "status" || parsed.command === "cancel") {
+    return replyToJobCommand(parsed.command, channel, threadTs, userId);
+  }
+  if (parsed.command === "repost" || parsed.command === "export") {
+    return replyWithSavedResults(parsed, channel, threadTs, userId);
+  }
+  if (parsed.command === "forget") {
+    return replyWithForget(parsed, channel, threadTs, userId);
+  }
+  if (parsed.command === "channel-lang" && parsed.channelLanguage) {
+    return updateChannelLanguage(channel, threadTs, parsed.channelLanguage);
+  }
+  if (parsed.command === "auto" && parsed.autoOCR !== undefined) {
+    return updateAutoOCR(channel, threadTs, parsed.autoOCR);
+  }
+  return null;
+}
+
+// Switch auto-OCR for the channel and confirm in the thread
+async function updateAutoOCR(
+  channel: string,
+  threadTs: string,
+  enabled: boolean
+): Promise<void> {
+  try {
+    const message = await setChannelAutoOCR(channel, enabled);
+    await postMessageToThread(getSlackClient(), channel, threadTs, message);
+  } catch (error) {
+    logger.error("Failed to update auto-OCR", {
+      channel,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+// Queue images shared in an auto-OCR channel, then reply once the burst settles
+async function handleAutoUpload(
+  channel: string,
+  threadTs: string,
+  fileIds: string[],
+  eventId: string,
+  userId?: string
+): Promise<void> {
+  await logger.session(`auto_ocr:${eventId}`, { eventId, channel, threadTs }, async () => {
+    try {
+      if (!(await isAutoOCREnabled(channel))) {
+        return;
+      }
+      logger.info("Queued images for auto-OCR", { fileIds });
+      await queueAutoOCR(channel, threadTs, fileIds, eventId, userId);
+      await runAutoOCRWhenSettled(channel, threadTs, eventId);
+    } catch (error) {
+      logger.error("Failed to auto-OCR images", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  });
+}
+
+// file_shared only carries the file ID; look up where it was posted
+async function handleFileShared(
+  channel: string,
+  fileId: string,
+  eventId: string,
+  userId?: string
+): Promise<void> {
+  try {
+    if (!(await isAutoOCREnabled(channel))) {
+      return;
+    }
+    const client = getSlackClient();
+    const share = await getFileShare(client, fileId, channel);
+    if (!share || !share.file.mimetype.startsWith("image/")) {
+      return;
+    }
+    // Like the message event: bot uploads are skipped, and uploads that mention
+    // the bot are handled by the app_mention event
+    const message = await getMessage(client, channel, share.messageTs);
+    if (
+      message?.bot_id ||
+      message?.text?.includes(`<@${await getBotUserId(client)}>`)
+    ) {
+      return;
+    }
+    await handleAutoUpload(channel, share.threadTs || share.messageTs, [fileId], eventId, userId);
+  } catch (error) {
+    logger.error("Failed to handle file_shared", {
+      channel,
+      fileId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
   }
 }
 
+// OCR the images in a message someone reacted to with a trigger emoji
+async function handleReaction(
+  trigger: ParsedCommand,
+  channel: string,
+  messageTs: string,
+  eventId: string,
+  userId?: string
+): Promise<void> {
+  await logger.session(`reaction_added:${eventId}`, { eventId, channel }, async () => {
+    try {
+      const message = await getMessage(getSlackClient(), channel, messageTs);
+      const hasImages = message?.files?.some((file) => file.mimetype?.startsWith("image/"));
+      if (!message || !hasImages) {
+        // Reactions are quiet; don't reply when there's nothing to read
+        logger.info("Reacted message has no images", { messageTs });
+        return;
+      }
+
+      const threadTs = message.thread_ts || message.ts;
+      await logger.context({ threadTs }, async () => {
+        logger.info("Processing reacted message", { messageTs, ...trigger });
+        await processThread(channel, threadTs, {
+          messageTs,
+          force: trigger.force,
+          targetLanguage: trigger.targetLanguage,
+          translationOnly: trigger.translationOnly,
+          userId,
+        });
+      });
+    } catch (error) {
+      logger.error("Failed to process reacted message", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  });
+}
+
 // Slack Events API payload types
 interface SlackChallenge {
   type: "url_verification";
@@ -72,15 +386,21 @@ interface SlackEventCallback {
     ts: string;
     thread_ts?: string;
     text?: string;
+    subtype?: string; // "file_share" for messages with uploads
+    files?: SlackFile[];
+    // file_shared events identify the channel and file separately
+    channel_id?: string;
+    file_id?: string;
+    user_id?: string;
+    // reaction_added events point at the message through item
+    reaction?: string;
+    item?: { type: string; channel?: string; ts?: string };
   };
   event_id: string;
 }
 
 type SlackPayload = SlackChallenge | SlackEventCallback;
 
-// Track processed event IDs to avoid duplicates (in-memory for simplicity)
-const processedEvents = new Set<string>();
-
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -101,15 +421,15 @@ export default async function handler(
   const signingSecret = process.env.SLACK_SIGNING_SECRET;
 
   if (!signingSecret) {
-    console.error("SLACK_SIGNING_SECRET not configured");
+    logger.error("SLACK_SIGNING_SECRET not configured");
     res.status(500).json({ error: "Server configuration error" });
     return;
   }
 
   // Verify signature
   if (!verifySlackSignature(signingSecret, signature, timestamp, rawBody)) {
-    console.error("Invalid Slack signature");
-    await logRequest(rawBody, req, { stage: "signature_failed", timestamp, signature: signature?.substring(0, 20) });
+    logger.warn("Invalid Slack signature");
+    await logRequest(rawBody, req, { stage: "signature_failed", timestamp });
     res.status(401).json({ error: "Invalid signature" });
     return;
   }
@@ -133,18 +453,17 @@ export default async function handler(
   if (payload.type === "event_callback") {
     const { event, event_id } = payload;
 
-    // Deduplicate events
-    if (processedEvents.has(event_id)) {
+    // Deduplicate events across instances and cold starts; Slack retries
+    // deliveries it thinks failed, with the same event_id
+    const retry = getSlackRetryInfo(req.headers);
+    const isNew = await claimEvent(event_id, retry);
+    if (retry) {
+      logger.info("Received Slack retry", { event_id, ...retry, duplicate: !isNew });
+    }
+    if (!isNew) {
       res.status(200).json({ ok: true });
       return;
     }
-    processedEvents.add(event_id);
-
-    // Clean up old event IDs (keep last 1000)
-    if (processedEvents.size > 1000) {
-      const toDelete = Array.from(processedEvents).slice(0, 500);
-      toDelete.forEach((id) => processedEvents.delete(id));
-    }
 
     // Handle app_mention events
     if (event.type === "app_mention") {
@@ -154,39 +473,57 @@ export default async function handler(
       const threadTs = event.thread_ts || event.ts;
       const channel = event.channel;
 
-      // Check if "force" is in the message text (case-insensitive)
-      const forceMode = /\bforce\b/i.test(event.text || "");
+      // Parse `force`, `lang=`, `last=` and subcommands from the mention text
+      const parsed = parseCommandText(event.text);
+      const { force: forceMode, targetLanguage, last, translationOnly, fromUser, afterTs } = parsed;
+      // `only-this` narrows to the images in the mention itself
+      const messageTs = parsed.onlyThisMessage ? event.ts : undefined;
+
+      // Subcommands (help, status, cancel, repost, export, forget, channel-lang, auto) don't run OCR
+      const reply = handleMentionCommand(parsed, channel, threadTs, event.user);
+      if (reply) {
+        waitUntil(reply);
+        res.status(200).json({ ok: true });
+        return;
+      }
 
       // Use waitUntil to keep the function alive while processing
       // This allows us to respond immediately to Slack while continuing to process
       waitUntil(
-        (async () => {
-          // Start logging session
-          logger.start(`app_mention:${event_id}`);
+        logger.session(`app_mention:${event_id}`, { eventId: event_id, channel, threadTs }, async () => {
           logger.info("Received app_mention event", {
-            event_id,
-            channel,
             ts: event.ts,
             thread_ts: event.thread_ts,
             text: event.text,
             forceMode,
+            targetLanguage,
+            last,
+            fromUser,
+            afterTs,
+            messageTs,
           });
 
-          logger.info("Processing thread", { channel, threadTs, forceMode });
+          logger.info("Processing thread", { forceMode });
 
           try {
-            await processThread(channel, threadTs, { force: forceMode });
+            await processThread(channel, threadTs, {
+              force: forceMode,
+              targetLanguage,
+              last,
+              translationOnly,
+              fromUser,
+              afterTs,
+              messageTs,
+              userId: event.user,
+            });
             logger.info("Thread processing completed successfully");
           } catch (error) {
             logger.error("Failed to process thread", {
               error: error instanceof Error ? error.message : String(error),
               stack: error instanceof Error ? error.stack : undefined,
             });
-          } finally {
-            // Flush logs to blob storage
-            await logger.flush();
           }
-        })()
+        })
       );
 
       // Respond immediately to avoid Slack retry
@@ -216,41 +553,102 @@ export default async function handler(
       const threadTs = event.thread_ts || event.ts;
       const channel = event.channel;
 
-      // Check if "force" is in the message text (case-insensitive)
-      const forceMode = /\bforce\b/i.test(event.text || "");
+      const parsed = parseCommandText(event.text);
+      const { force: forceMode, targetLanguage, last, translationOnly, fromUser, afterTs } = parsed;
+      // `only-this` narrows to the images in the mention itself
+      const messageTs = parsed.onlyThisMessage ? event.ts : undefined;
+
+      const reply = handleMentionCommand(parsed, channel, threadTs, event.user);
+      if (reply) {
+        waitUntil(reply);
+        res.status(200).json({ ok: true });
+        return;
+      }
 
       waitUntil(
-        (async () => {
-          logger.start(`dm_message:${event_id}`);
+        logger.session(`dm_message:${event_id}`, { eventId: event_id, channel, threadTs }, async () => {
           logger.info("Received DM with bot mention", {
-            event_id,
-            channel,
             ts: event.ts,
             thread_ts: event.thread_ts,
             text: event.text,
             forceMode,
+            targetLanguage,
+            last,
+            fromUser,
+            afterTs,
+            messageTs,
           });
 
-          logger.info("Processing DM thread", { channel, threadTs, forceMode });
+          logger.info("Processing DM thread", { forceMode });
 
           try {
-            await processThread(channel, threadTs, { force: forceMode });
+            await processThread(channel, threadTs, {
+              force: forceMode,
+              targetLanguage,
+              last,
+              translationOnly,
+              fromUser,
+              afterTs,
+              messageTs,
+              userId: event.user,
+            });
             logger.info("DM thread processing completed successfully");
           } catch (error) {
             logger.error("Failed to process DM thread", {
               error: error instanceof Error ? error.message : String(error),
               stack: error instanceof Error ? error.stack : undefined,
             });
-          } finally {
-            await logger.flush();
           }
-        })()
+        })
       );
 
       res.status(200).json({ ok: true });
       return;
     }
 
+    // A trigger emoji (e.g. :mag:) on a message OCRs just that message
+    if (event.type === "reaction_added" && event.item?.type === "message") {
+      const trigger = event.reaction ? getReactionTrigger(event.reaction) : null;
+      const { channel, ts } = event.item;
+      if (trigger && channel && ts) {
+        waitUntil(handleReaction(trigger, channel, ts, event_id, event.user));
+      }
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    // Images posted in a channel: OCR them if the channel has auto-OCR on
+    if (event.type === "message" && event.subtype === "file_share" && event.channel_type !== "im") {
+      const imageIds = (event.files || [])
+        .filter((file) => file.mimetype?.startsWith("image/"))
+        .map((file) => file.id);
+
+      // Uploads that mention the bot are handled by the app_mention event
+      const client = getSlackClient();
+      const mentionsBot =
+        imageIds.length > 0 && event.text?.includes(`<@${await getBotUserId(client)}>`);
+
+      if (!event.bot_id && imageIds.length > 0 && !mentionsBot) {
+        waitUntil(
+          handleAutoUpload(
+            event.channel,
+            event.thread_ts || event.ts,
+            imageIds,
+            event_id,
+            event.user
+          )
+        );
+      }
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    if (event.type === "file_shared" && event.channel_id && event.file_id) {
+      waitUntil(handleFileShared(event.channel_id, event.file_id, event_id, event.user_id));
+      res.status(200).json({ ok: true });
+      return;
+    }
+
     // Unknown event type
     res.status(200).json({ ok: true });
     return;
@@ -0,0 +1,334 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { waitUntil } from "@vercel/functions";
+import type { View } from "@slack/web-api";
+import {
+  verifySlackSignature,
+  getSlackClient,
+  uploadTextToThread,
+} from "../../lib/slack.js";
+import { processThread, type ProcessThreadOptions } from "../../lib/process-thread.js";
+import { findJobResult } from "../../lib/jobs.js";
+import { formatOCRResultAsText, type OCRActionValue } from "../../lib/ocr.js";
+import { getLanguageChoices } from "../../lib/language.js";
+import { logger } from "../../lib/logger.js";
+
+// Disable body parsing to get raw body for signature verification
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// Callback IDs configured in the Slack app
+const EXTRACT_TEXT_SHORTCUT = "ocr_extract_text";
+const OPTIONS_MODAL = "ocr_options";
+
+// Slack interactivity payload (only the fields we use)
+interface SlackInteraction {
+  type: "message_action" | "block_actions" | "view_submission";
+  callback_id?: string;
+  trigger_id?: string;
+  user: { id: string };
+  channel?: { id: string };
+  message?: { ts: string; thread_ts?: string };
+  response_url?: string;
+  actions?: {
+    action_id: string;
+    value?: string;
+    selected_option?: { value: string };
+  }[];
+  view?: {
+    callback_id: string;
+    private_metadata: string;
+    state: {
+      values: Record<
+        string,
+        Record<
+          string,
+          {
+            selected_option?: { value: string } | null;
+            selected_options?: { value: string }[];
+          }
+        >
+      >;
+    };
+  };
+}
+
+// Where the message shortcut was used; carried through the modal's private_metadata
+interface ShortcutTarget {
+  channel: string;
+  messageTs: string;
+  threadTs: string;
+}
+
+function buildOptionsModal(target: ShortcutTarget): View {
+  return {
+    type: "modal",
+    callback_id: OPTIONS_MODAL,
+    private_metadata: JSON.stringify(target),
+    title: { type: "plain_text", text: "Extract text" },
+    submit: { type: "plain_text", text: "Extract" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "language",
+        optional: true,
+        label: { type: "plain_text", text: "Translate into" },
+        hint: {
+          type: "plain_text",
+          text: "Leave empty to use the channel default or your Slack language.",
+        },
+        element: {
+          type: "static_select",
+          action_id: "value",
+          placeholder: { type: "plain_text", text: "Choose a language" },
+          options: getLanguageChoices().map(({ code, name }) => ({
+            text: { type: "plain_text", text: name },
+            value: code,
+          })),
+        },
+      },
+      {
+        type: "input",
+        block_id: "options",
+        optional: true,
+        label: { type: "plain_text", text: "Options" },
+        element: {
+          type: "checkboxes",
+          action_id: "value",
+          options: [
+            {
+              text: { type: "plain_text", text: "Reprocess even if already done" },
+              value: "force",
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+// Post an ephemeral reply through the interaction's response_url
+async function respondEphemeral(responseUrl: string | undefined, text: string): Promise<void> {
+  if (!responseUrl) {
+    return;
+  }
+  await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      response_type: "ephemeral",
+      replace_original: false,
+      text,
+    }),
+  });
+}
+
+// Run OCR in the background with its own log session
+function runInBackground(
+  context: string,
+  channel: string,
+  threadTs: string,
+  options: ProcessThreadOptions
+): void {
+  waitUntil(
+    logger.session(context, { channel, threadTs }, async () => {
+      logger.info("Processing from interaction", options);
+      try {
+        await processThread(channel, threadTs, options);
+      } catch (error) {
+        logger.error("Failed to process from interaction", {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+    })
+  );
+}
+
+async function handleBlockAction(payload: SlackInteraction): Promise<void> {
+  const action = payload.actions?.[0];
+  const rawValue = action?.selected_option?.value ?? action?.value;
+  if (!action || !rawValue) {
+    return;
+  }
+
+  let value: OCRActionValue;
+  try {
+    value = JSON.parse(rawValue) as OCRActionValue;
+  } catch {
+    return;
+  }
+  const { channel, threadTs, fileId } = value;
+  const userId = payload.user.id;
+
+  switch (action.action_id) {
+    case "ocr_rerun":
+      runInBackground(`block_action:rerun:${fileId}`, channel, threadTs, {
+        fileIds: [fileId],
+        force: true,
+        userId,
+      });
+      return;
+
+    case "ocr_translate":
+      // The image has already been processed, so translating it is a forced re-run
+      // in the chosen language
+      runInBackground(`block_action:translate:${fileId}`, channel, threadTs, {
+        fileIds: [fileId],
+        force: true,
+        targetLanguage: value.lang,
+        userId,
+      });
+      return;
+
+    case "ocr_show_original": {
+      const result = await findJobResult(channel, threadTs, fileId);
+      const text = result?.originalText
+        ? `*Original (${result.language}) - ${result.fileName}:*\n${result.originalText}`
+        : "I no longer have the original text for this image. Use Re-run to process it again.";
+      await respondEphemeral(payload.response_url, text);
+      return;
+    }
+
+    case "ocr_download": {
+      const result = await findJobResult(channel, threadTs, fileId);
+      if (!result) {
+        await respondEphemeral(
+          payload.response_url,
+          "I no longer have the text for this image. Use Re-run to process it again."
+        );
+        return;
+      }
+      await uploadTextToThread(
+        getSlackClient(),
+        channel,
+        threadTs,
+        `${result.fileName.replace(/\.[^.]+$/, "")}.txt`,
+        formatOCRResultAsText(result)
+      );
+      return;
+    }
+  }
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  // Read raw body for signature verification
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  const rawBody = Buffer.concat(chunks).toString("utf8");
+
+  const timestamp = req.headers["x-slack-request-timestamp"] as string;
+  const signature = req.headers["x-slack-signature"] as string;
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+
+  if (!signingSecret) {
+    logger.error("SLACK_SIGNING_SECRET not configured");
+    res.status(500).json({ error: "Server configuration error" });
+    return;
+  }
+
+  // Verify signature
+  if (!verifySlackSignature(signingSecret, signature, timestamp, rawBody)) {
+    logger.warn("Invalid Slack signature");
+    res.status(401).json({ error: "Invalid signature" });
+    return;
+  }
+
+  // Interactivity payloads arrive as a JSON string in the `payload` form field
+  let payload: SlackInteraction;
+  try {
+    const rawPayload = new URLSearchParams(rawBody).get("payload") || "";
+    payload = JSON.parse(rawPayload) as SlackInteraction;
+  } catch {
+    res.status(400).json({ error: "Invalid payload" });
+    return;
+  }
+
+  // "Extract text" message shortcut: ask for options in a modal
+  if (payload.type === "message_action" && payload.callback_id === EXTRACT_TEXT_SHORTCUT) {
+    if (payload.trigger_id && payload.channel && payload.message) {
+      const target: ShortcutTarget = {
+        channel: payload.channel.id,
+        messageTs: payload.message.ts,
+        threadTs: payload.message.thread_ts || payload.message.ts,
+      };
+      try {
+        await getSlackClient().views.open({
+          trigger_id: payload.trigger_id,
+          view: buildOptionsModal(target),
+        });
+      } catch (error) {
+        logger.error("Failed to open options modal", {
+          channel: target.channel,
+          messageTs: target.messageTs,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+    }
+    res.status(200).send("");
+    return;
+  }
+
+  // Options modal submitted: OCR just that message
+  if (payload.type === "view_submission" && payload.view?.callback_id === OPTIONS_MODAL) {
+    let target: ShortcutTarget;
+    try {
+      target = JSON.parse(payload.view.private_metadata) as ShortcutTarget;
+    } catch {
+      res.status(400).json({ error: "Invalid view metadata" });
+      return;
+    }
+    const values = payload.view.state.values;
+    const language = values.language?.value?.selected_option?.value;
+    const force = !!values.options?.value?.selected_options?.some(
+      (option) => option.value === "force"
+    );
+
+    runInBackground(
+      `shortcut:${target.channel}:${target.messageTs}`,
+      target.channel,
+      target.threadTs,
+      {
+        messageTs: target.messageTs,
+        targetLanguage: language,
+        force,
+        userId: payload.user.id,
+      }
+    );
+
+    // An empty 200 closes the modal
+    res.status(200).send("");
+    return;
+  }
+
+  if (payload.type === "block_actions") {
+    // Acknowledge first; Slack expects a response within 3 seconds
+    res.status(200).send("");
+    waitUntil(
+      handleBlockAction(payload).catch((error) => {
+        logger.error("Failed to handle block action", {
+          actionId: payload.actions?.[0]?.action_id,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      })
+    );
+    return;
+  }
+
+  res.status(200).send("");
+}
@@ -0,0 +1,137 @@
+import { getChannelSettings, updateChannelSettings } from "./channel-settings.js";
+import { processThread } from "./process-thread.js";
+import { sleep } from "./retry.js";
+import { logger } from "./logger.js";
+import { getStorage, readJson, writeJson } from "./storage.js";
+import type { ForgetScope } from "./forget.js";
+
+// Wait this long after the last upload in a thread before replying, so a burst
+// of uploads (and the message + file_shared events for each) becomes one reply
+const AUTO_DEBOUNCE_MS = Number(process.env.OCR_AUTO_DEBOUNCE_MS) || 5_000;
+
+interface PendingUpload {
+  fileId: string;
+  eventId: string;
+  userId?: string;
+  receivedAt: string;
+}
+
+// One marker per file so concurrent events never overwrite each other's uploads.
+// Key format: auto-pending/{channel_id}_{thread_ts}/{file_id}.json
+function getPendingPrefix(channel: string, threadTs: string): string {
+  return `auto-pending/${channel}_${threadTs}/`;
+}
+
+export async function isAutoOCREnabled(channel: string): Promise<boolean> {
+  const settings = await getChannelSettings(channel);
+  return settings.autoOCR === true;
+}
+
+// Turn auto-OCR on or off for a channel; returns a message for the user
+export async function setChannelAutoOCR(
+  channel: string,
+  enabled: boolean
+): Promise<string> {
+  await updateChannelSettings(channel, { autoOCR: enabled });
+  return enabled
+    ? "Auto-OCR is on: I'll transcribe every image posted in this channel and reply in its thread. Use `/ocr auto off` to stop."
+    : "Auto-OCR is off for this channel. Mention me in a thread to OCR its images.";
+}
+
+// Record newly shared images for a thread
+export async function queueAutoOCR(
+  channel: string,
+  threadTs: string,
+  fileIds: string[],
+  eventId: string,
+  userId?: string
+): Promise<void> {
+  const receivedAt = new Date().toISOString();
+  await Promise.all(
+    fileIds.map((fileId) => {
+      const upload: PendingUpload = { fileId, eventId, userId, receivedAt };
+      return writeJson(`${getPendingPrefix(channel, threadTs)}${fileId}.json`, upload);
+    })
+  );
+}
+
+async function listPendingUploads(
+  channel: string,
+  threadTs: string
+): Promise<{ key: string; upload: PendingUpload }[]> {
+  const entries = await getStorage().list(getPendingPrefix(channel, threadTs));
+  const pending: { key: string; upload: PendingUpload }[] = [];
+  for (const { key } of entries) {
+    try {
+      const upload = await readJson<PendingUpload>(key);
+      if (upload) {
+        pending.push({ key, upload });
+      }
+    } catch {
+      // Skip unreadable markers
+    }
+  }
+  return pending;
+}
+
+// Wait out the debounce window, then OCR the thread's pending images if this
+// event was the last upload of the burst. Earlier events in the burst return
+// without doing anything; the latest one replies for all of them.
+export async function runAutoOCRWhenSettled(
+  channel: string,
+  threadTs: string,
+  eventId: string
+): Promise<void> {
+  await sleep(AUTO_DEBOUNCE_MS);
+
+  const pending = await listPendingUploads(channel, threadTs);
+  if (pending.length === 0) {
+    return;
+  }
+
+  const latest = pending.reduce((a, b) =>
+    a.upload.receivedAt > b.upload.receivedAt ||
+    (a.upload.receivedAt === b.upload.receivedAt && a.upload.eventId > b.upload.eventId)
+      ? a
+      : b
+  );
+  if (latest.upload.eventId !== eventId) {
+    logger.info("Auto-OCR deferred to a later upload", { channel, threadTs, eventId });
+    return;
+  }
+
+  const fileIds = pending.map(({ upload }) => upload.fileId);
+  logger.info("Running auto-OCR", { channel, threadTs, fileIds });
+  await processThread(channel, threadTs, {
+    fileIds,
+    userId: latest.upload.userId,
+  });
+
+  // Cleared only once the run has taken the files on (a filtered run never defers
+  // to another job), so a failed run leaves them for the next upload in the thread
+  await getStorage().delete(pending.map(({ key }) => key));
+}
+
+// Drop queued uploads for a thread, a channel or a user; returns how many were removed
+export async function deletePendingUploads(scope: ForgetScope): Promise<number> {
+  const storage = getStorage();
+  const prefix =
+    scope.type === "thread"
+      ? getPendingPrefix(scope.channel, scope.threadTs)
+      : scope.type === "channel"
+        ? `auto-pending/${scope.channel}_`
+        : "auto-pending/";
+
+  const keys: string[] = [];
+  for (const { key } of await storage.list(prefix)) {
+    if (scope.type === "user") {
+      const upload = await readJson<PendingUpload>(key).catch(() => null);
+      if (upload?.userId !== scope.userId) {
+        continue;
+      }
+    }
+    keys.push(key);
+  }
+  await storage.delete(keys);
+  return keys.length;
+}
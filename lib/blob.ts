@@ -1,64 +1,192 @@
-import { put, head } from "@vercel/blob";
+import type { OCRResult } from "./ocr.js";
+import { compareTs, type SlackFile } from "./slack.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getStorage, readJson, writeJson } from "./storage.js";
+import type { ForgetScope } from "./forget.js";
 
-// Key format: processed/{channel_id}_{thread_ts}.json
-function getProcessedKey(channel: string, threadTs: string): string {
+// Legacy key format: processed/{channel_id}_{thread_ts}.json
+// (one read-modify-write object per thread; still read, no longer written)
+function getLegacyProcessedKey(channel: string, threadTs: string): string {
   return `processed/${channel}_${threadTs}.json`;
 }
 
-interface ProcessedData {
+// One marker object per processed file, so overlapping runs never overwrite
+// each other's state. Key format: processed/{channel_id}_{thread_ts}/{file_id}.json
+function getProcessedPrefix(channel: string, threadTs: string): string {
+  return `processed/${channel}_${threadTs}/`;
+}
+
+interface LegacyProcessedData {
   processedFileIds: string[];
+  results?: OCRResult[];
   lastUpdated: string;
 }
 
+interface ProcessedMarker {
+  fileId: string;
+  processedAt: string;
+  // The message the file was posted in and its position within the run, so
+  // results keep thread order however often a file is re-run
+  messageTs?: string;
+  order?: number;
+  // Latest result for the file, kept for repost and export
+  result?: OCRResult;
+  // Who uploaded the file, so `/ocr forget from=@user` can find it
+  userId?: string;
+}
+
+async function getLegacyProcessedData(
+  channel: string,
+  threadTs: string
+): Promise<LegacyProcessedData | null> {
+  try {
+    return await readJson<LegacyProcessedData>(getLegacyProcessedKey(channel, threadTs));
+  } catch {
+    // Treat unreadable state as missing
+    return null;
+  }
+}
+
+// Marker keys for a thread, with the file ID each one is for
+async function listProcessedMarkers(
+  channel: string,
+  threadTs: string
+): Promise<{ fileId: string; key: string }[]> {
+  const prefix = getProcessedPrefix(channel, threadTs);
+  const entries = await getStorage().list(prefix);
+  return entries.map(({ key }) => ({
+    fileId: key.slice(prefix.length).replace(/\.json$/, ""),
+    key,
+  }));
+}
+
 // Get list of already processed file IDs for a thread
 export async function getProcessedFileIds(
   channel: string,
   threadTs: string
 ): Promise<string[]> {
-  const key = getProcessedKey(channel, threadTs);
+  const [legacy, markers] = await Promise.all([
+    getLegacyProcessedData(channel, threadTs),
+    listProcessedMarkers(channel, threadTs),
+  ]);
+  return [
+    ...new Set([
+      ...(legacy?.processedFileIds || []),
+      ...markers.map((marker) => marker.fileId),
+    ]),
+  ];
+}
 
-  try {
-    const blob = await head(key);
-    if (!blob) {
-      return [];
-    }
+// Get the stored OCR results for a thread (for repost and export), oldest first
+export async function getThreadResults(
+  channel: string,
+  threadTs: string
+): Promise<OCRResult[]> {
+  const [legacy, markers] = await Promise.all([
+    getLegacyProcessedData(channel, threadTs),
+    listProcessedMarkers(channel, threadTs),
+  ]);
 
-    const response = await fetch(blob.url);
-    if (!response.ok) {
-      return [];
+  const stored = await mapWithConcurrency(markers, 8, async ({ key }) => {
+    try {
+      return await readJson<ProcessedMarker>(key);
+    } catch {
+      // Skip unreadable markers
+      return null;
     }
+  });
+  const fromMarkers = stored
+    .filter((marker): marker is ProcessedMarker & { result: OCRResult } => !!marker?.result)
+    .sort(
+      (a, b) =>
+        (a.messageTs && b.messageTs
+          ? compareTs(a.messageTs, b.messageTs)
+          : // Markers from before messageTs was recorded come first, in run order
+            Number(!!a.messageTs) - Number(!!b.messageTs) ||
+            a.processedAt.localeCompare(b.processedAt)) ||
+        (a.order ?? 0) - (b.order ?? 0)
+    )
+    .map((marker) => marker.result);
 
-    const data = (await response.json()) as ProcessedData;
-    return data.processedFileIds || [];
-  } catch {
-    // Blob doesn't exist yet
-    return [];
-  }
+  // Marker results are newer than anything in the legacy object
+  const markerIds = new Set(fromMarkers.map((result) => result.fileId));
+  return [
+    ...(legacy?.results || []).filter((result) => !markerIds.has(result.fileId)),
+    ...fromMarkers,
+  ];
 }
 
-// Mark file IDs as processed for a thread
+// Mark file IDs as processed for a thread, storing their results.
+// Each file gets its own marker, so there is no read-modify-write to race on.
 export async function markFilesAsProcessed(
   channel: string,
   threadTs: string,
-  fileIds: string[]
+  fileIds: string[],
+  results: OCRResult[] = [],
+  // Where each file was posted and who uploaded it
+  files: Pick<SlackFile, "id" | "user" | "message_ts">[] = []
 ): Promise<void> {
-  const key = getProcessedKey(channel, threadTs);
+  const prefix = getProcessedPrefix(channel, threadTs);
+  const processedAt = new Date().toISOString();
 
-  // Get existing processed files
-  const existingIds = await getProcessedFileIds(channel, threadTs);
+  await Promise.all(
+    [...new Set(fileIds)].map((fileId, order) => {
+      const file = files.find((candidate) => candidate.id === fileId);
+      const marker: ProcessedMarker = {
+        fileId,
+        processedAt,
+        messageTs: file?.message_ts,
+        order,
+        result: results.find((result) => result.fileId === fileId),
+        userId: file?.user,
+      };
+      return writeJson(`${prefix}${fileId}.json`, marker);
+    })
+  );
+}
 
-  // Merge with new file IDs (deduplicate)
-  const allProcessedIds = [...new Set([...existingIds, ...fileIds])];
+// Delete processed state and saved results for a thread or channel, or for a
+// user's files (markers recording them as uploader, plus the files listed).
+// Legacy per-thread objects don't record uploaders and are only removed with
+// their thread or channel. Returns the number of objects deleted.
+export async function deleteProcessedState(
+  scope: ForgetScope,
+  userFiles: { channel: string; threadTs: string; fileId: string }[] = []
+): Promise<number> {
+  const storage = getStorage();
 
-  const data: ProcessedData = {
-    processedFileIds: allProcessedIds,
-    lastUpdated: new Date().toISOString(),
-  };
+  if (scope.type !== "user") {
+    // Matches both the marker folder and the legacy object
+    const prefix =
+      scope.type === "thread"
+        ? `processed/${scope.channel}_${scope.threadTs}`
+        : `processed/${scope.channel}_`;
+    const keys = (await storage.list(prefix)).map((entry) => entry.key);
+    await storage.delete(keys);
+    return keys.length;
+  }
 
-  await put(key, JSON.stringify(data), {
-    access: "public",
-    addRandomSuffix: false,
+  const listedKeys = new Set(
+    userFiles.map(
+      ({ channel, threadTs, fileId }) => `${getProcessedPrefix(channel, threadTs)}${fileId}.json`
+    )
+  );
+  const markerKeys = (await storage.list("processed/"))
+    .map((entry) => entry.key)
+    .filter((key) => key.slice("processed/".length).includes("/"));
+  const owned = await mapWithConcurrency(markerKeys, 8, async (key) => {
+    if (listedKeys.has(key)) {
+      return true;
+    }
+    try {
+      return (await readJson<ProcessedMarker>(key))?.userId === scope.userId;
+    } catch {
+      return false;
+    }
   });
+  const keys = markerKeys.filter((_, index) => owned[index]);
+  await storage.delete(keys);
+  return keys.length;
 }
 
 // Filter out already processed files
@@ -0,0 +1,54 @@
+import { getStorage, readJson, writeJson } from "./storage.js";
+
+// Key format: settings/{channel_id}.json
+function getSettingsKey(channel: string): string {
+  return `settings/${channel}.json`;
+}
+
+export interface ChannelSettings {
+  // Default translation target for this channel (language name, e.g. "German")
+  targetLanguage?: string;
+  // OCR every image posted in the channel without a mention (`/ocr auto on`)
+  autoOCR?: boolean;
+  lastUpdated?: string;
+}
+
+// Get persisted settings for a channel (empty if none were saved)
+export async function getChannelSettings(
+  channel: string
+): Promise<ChannelSettings> {
+  try {
+    return (await readJson<ChannelSettings>(getSettingsKey(channel))) ?? {};
+  } catch {
+    // Fall back to defaults if settings can't be read
+    return {};
+  }
+}
+
+// Merge changes into a channel's settings
+export async function updateChannelSettings(
+  channel: string,
+  changes: Partial<ChannelSettings>
+): Promise<ChannelSettings> {
+  const existing = await getChannelSettings(channel);
+  const settings: ChannelSettings = {
+    ...existing,
+    ...changes,
+    lastUpdated: new Date().toISOString(),
+  };
+
+  await writeJson(getSettingsKey(channel), settings);
+
+  return settings;
+}
+
+// Remove a channel's saved settings; returns whether there were any
+export async function deleteChannelSettings(channel: string): Promise<boolean> {
+  const storage = getStorage();
+  const existing = await storage.get(getSettingsKey(channel));
+  if (!existing) {
+    return false;
+  }
+  await storage.delete(getSettingsKey(channel));
+  return true;
+}
@@ -0,0 +1,268 @@
+import { normalizeLanguage } from "./language.js";
+
+export type OCRCommand =
+  | "run"
+  | "help"
+  | "status"
+  | "cancel"
+  | "channel-lang"
+  | "auto"
+  | "repost"
+  | "export"
+  | "forget";
+
+// A thread named in the command text by permalink or timestamp
+export interface CommandTarget {
+  // Only known when a permalink was given; otherwise use the current channel
+  channel?: string;
+  threadTs: string;
+  // The linked message, when a permalink points at a reply inside a thread
+  messageTs?: string;
+}
+
+export interface ParsedCommand {
+  command: OCRCommand;
+  force: boolean;
+  // Requested translation language as typed (`lang=de`)
+  targetLanguage?: string;
+  // New channel default language (`channel-lang=de`, or off/auto/none to clear)
+  channelLanguage?: string;
+  // Only the most recent N images (`last=N`)
+  last?: number;
+  // Channel auto-OCR switch (`auto on` / `auto off`)
+  autoOCR?: boolean;
+  // File format for `export` (`export json` / `export md`)
+  exportFormat?: "json" | "markdown";
+  // What `forget` deletes data about: the thread, the channel (`forget channel`)
+  // or a user (`forget from=@alice`)
+  forgetScope?: "thread" | "channel" | "user";
+  // Post only translations (`translate-only`)
+  translationOnly: boolean;
+  // Only images in the message with the command (`only-this`)
+  onlyThisMessage: boolean;
+  // Only images uploaded by this user ID (`from=@alice`)
+  fromUser?: string;
+  // Only images posted after this message ts (`after=<link or ts>`)
+  afterTs?: string;
+  target?: CommandTarget;
+  // Problems worth telling the user about; the command should not run
+  errors: string[];
+  // Words that are neither keywords nor options
+  unknownWords: string[];
+}
+
+type Flag = "force" | "translate-only" | "only-this";
+
+const KEYWORDS: Record<string, OCRCommand | Flag> = {
+  help: "help",
+  status: "status",
+  cancel: "cancel",
+  auto: "auto",
+  repost: "repost",
+  export: "export",
+  forget: "forget",
+  force: "force",
+  "translate-only": "translate-only",
+  "only-this": "only-this",
+};
+
+const TIMESTAMP_PATTERN = /^\d{9,}\.\d{6}$/;
+
+// Slack wraps links as <url> or <url|label>; mentions as <@U123>
+function unwrapToken(token: string): string {
+  const match = token.match(/^<([^>|]+)(?:\|[^>]*)?>$/);
+  return match ? match[1] : token;
+}
+
+// Parse a message permalink, e.g.
+// https://acme.slack.com/archives/C123/p1712345678901234?thread_ts=1712345600.000100&cid=C123
+export function parsePermalink(url: string): CommandTarget | null {
+  const match = url.match(/\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})(?:[?#]|$)/i);
+  if (!match) {
+    return null;
+  }
+
+  const messageTs = `${match[2]}.${match[3]}`;
+  const threadTs = url.match(/[?&]thread_ts=(\d+\.\d+)/)?.[1] || messageTs;
+  return {
+    channel: match[1].toUpperCase(),
+    threadTs,
+    messageTs: messageTs !== threadTs ? messageTs : undefined,
+  };
+}
+
+// Shared parser for `/ocr` text and bot mention text
+export function parseCommandText(text: string | undefined): ParsedCommand {
+  const parsed: ParsedCommand = {
+    command: "run",
+    force: false,
+    translationOnly: false,
+    onlyThisMessage: false,
+    errors: [],
+    unknownWords: [],
+  };
+  const tokens = (text || "").split(/\s+/).filter(Boolean);
+
+  for (const rawToken of tokens) {
+    // Skip user mentions (including the bot's own)
+    if (/^<@[^>]+>$/.test(rawToken)) {
+      continue;
+    }
+    const token = unwrapToken(rawToken);
+
+    if (/^https?:\/\//i.test(token)) {
+      const target = parsePermalink(token);
+      if (target) {
+        parsed.target = target;
+      } else {
+        parsed.errors.push(`\`${token}\` doesn't look like a Slack message link. Use *Copy link* on the thread's first message.`);
+      }
+      continue;
+    }
+
+    if (TIMESTAMP_PATTERN.test(token)) {
+      parsed.target = { threadTs: token };
+      continue;
+    }
+
+    const option = token.match(/^([\w-]+)=(.*)$/);
+    if (option) {
+      const key = option[1].toLowerCase();
+      const value = option[2];
+      if (key === "lang") {
+        if (normalizeLanguage(value)) {
+          parsed.targetLanguage = value;
+        } else {
+          parsed.errors.push(`I don't know the language \`${value}\`. Try a code like \`lang=de\` or a name like \`lang=german\`.`);
+        }
+      } else if (key === "channel-lang") {
+        if (/^(off|auto|none)$/i.test(value) || normalizeLanguage(value)) {
+          parsed.channelLanguage = value;
+          parsed.command = "channel-lang";
+        } else {
+          parsed.errors.push(`I don't know the language \`${value}\`. Try \`channel-lang=de\`, or \`channel-lang=off\` to clear it.`);
+        }
+      } else if (key === "last") {
+        const count = Number(value);
+        if (Number.isInteger(count) && count > 0) {
+          parsed.last = count;
+        } else {
+          parsed.errors.push(`\`last=\` needs a positive whole number, e.g. \`last=3\`.`);
+        }
+      } else if (key === "from") {
+        // Escaped mentions arrive as <@U123> or <@U123|name>
+        const userId =
+          value.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/i)?.[1] ??
+          value.match(/^[UW][A-Z0-9]{2,}$/)?.[0];
+        if (userId) {
+          parsed.fromUser = userId.toUpperCase();
+        } else {
+          parsed.errors.push("`from=` needs a user mention, e.g. `from=@alice`.");
+        }
+      } else if (key === "after") {
+        const link = unwrapToken(value);
+        const linked = parsePermalink(link);
+        const afterTs = TIMESTAMP_PATTERN.test(link)
+          ? link
+          : linked?.messageTs ?? linked?.threadTs;
+        if (afterTs) {
+          parsed.afterTs = afterTs;
+        } else {
+          parsed.errors.push("`after=` needs a message link or timestamp, e.g. `after=https://…/p1712345678901234`.");
+        }
+      } else {
+        parsed.errors.push(`Unknown option \`${key}=\`. Options are \`lang=\`, \`channel-lang=\`, \`last=\`, \`from=\` and \`after=\`.`);
+      }
+      continue;
+    }
+
+    const word = token.toLowerCase();
+    if (parsed.command === "auto" && (word === "on" || word === "off")) {
+      parsed.autoOCR = word === "on";
+      continue;
+    }
+
+    if (parsed.command === "export" && /^(json|md|markdown)$/.test(word)) {
+      parsed.exportFormat = word === "json" ? "json" : "markdown";
+      continue;
+    }
+
+    if (parsed.command === "forget" && word === "channel") {
+      parsed.forgetScope = "channel";
+      continue;
+    }
+
+    const keyword = KEYWORDS[word];
+    if (keyword === "force") {
+      parsed.force = true;
+    } else if (keyword === "translate-only") {
+      parsed.translationOnly = true;
+    } else if (keyword === "only-this") {
+      parsed.onlyThisMessage = true;
+    } else if (keyword) {
+      // help wins over other subcommands; otherwise the first one given counts
+      if (keyword === "help" || parsed.command === "run") {
+        parsed.command = keyword;
+      }
+    } else {
+      parsed.unknownWords.push(token);
+    }
+  }
+
+  if (parsed.command === "export" && !parsed.exportFormat) {
+    parsed.exportFormat = "markdown";
+  }
+
+  if (parsed.command === "forget") {
+    if (parsed.forgetScope === "channel" && parsed.fromUser) {
+      parsed.errors.push("Use either `forget channel` or `forget from=@user`, not both.");
+    } else if (parsed.fromUser) {
+      parsed.forgetScope = "user";
+    } else if (!parsed.forgetScope) {
+      parsed.forgetScope = "thread";
+    }
+  }
+
+  if (parsed.command === "auto" && parsed.autoOCR === undefined) {
+    parsed.errors.push("Use `auto on` or `auto off` to switch auto-OCR for this channel.");
+  }
+
+  return parsed;
+}
+
+// Usage text for `/ocr help` and `@ocr help`
+export function formatCommandHelp(source: "slash" | "mention"): string {
+  if (source === "slash") {
+    return [
+      "*Usage:* `/ocr <thread link or timestamp> [options]`",
+      "• `/ocr https://…/archives/C123/p1712345678901234` OCR the images in that thread",
+      "• `force` reprocess images that were already done",
+      "• `lang=de` translate into another language",
+      "• `translate-only` post only translations, not the original text",
+      "• `last=3` only the 3 most recent images",
+      "• `from=@alice` only images Alice posted; `after=<message link>` only images posted after that message",
+      "• `only-this` with a link to a reply: only that message's images",
+      "• `/ocr status <thread>` / `/ocr cancel <thread>` check on or stop a run",
+      "• `/ocr repost <thread>` post saved results again; `/ocr export json <thread>` (or `md`) attach them as a file",
+      "• `/ocr channel-lang=de` set this channel's default language (`off` clears it)",
+      "• `/ocr auto on` / `/ocr auto off` OCR every image posted in this channel",
+      "• `/ocr forget <thread>` delete what I stored about a thread; `forget channel` for this channel; `forget from=@alice` for a user (admins only)",
+      "",
+      "Tip: use *Copy link* on the thread's first message to get its link.",
+    ].join("\n");
+  }
+  return [
+    "*Usage:* mention me in a thread with images, e.g. `@ocr`",
+    "• `@ocr force` reprocess images that were already done",
+    "• `@ocr lang=de` translate into another language",
+    "• `@ocr translate-only` post only translations, not the original text",
+    "• `@ocr last=3` only the 3 most recent images",
+    "• `@ocr from=@alice` only images Alice posted; `@ocr after=<message link>` only images posted after that message",
+    "• `@ocr only-this` only images in the message that mentions me",
+    "• `@ocr status` / `@ocr cancel` check on or stop a run",
+    "• `@ocr repost` post saved results again; `@ocr export json` (or `md`) attach them as a file",
+    "• `@ocr channel-lang=de` set this channel's default language (`off` clears it)",
+    "• `@ocr auto on` / `@ocr auto off` OCR every image posted in this channel",
+    "• `@ocr forget` delete what I stored about this thread; `forget channel` for this channel; `forget from=@alice` for a user (admins only)",
+  ].join("\n");
+}
@@ -0,0 +1,103 @@
+import type { IncomingHttpHeaders } from "http";
+import { getStorage, readJson, writeJson, StorageConflictError } from "./storage.js";
+import { logger } from "./logger.js";
+
+// Slack retries an event for up to about an hour; remember IDs for
+// OCR_EVENT_DEDUP_TTL_HOURS (default 24) so late retries are still recognised
+const DEFAULT_TTL_HOURS = 24;
+// IDs kept in memory to skip the storage lookup for retries hitting a warm instance
+const RECENT_EVENTS_LIMIT = 1000;
+
+export interface SlackRetryInfo {
+  retryNum: number;
+  // e.g. "http_timeout", "http_error", "too_many_redirects"
+  retryReason?: string;
+}
+
+interface EventMarker {
+  eventId: string;
+  receivedAt: string;
+  retryNum?: number;
+  retryReason?: string;
+}
+
+const recentEvents = new Set<string>();
+
+function getTtlMs(): number {
+  const hours = process.env.OCR_EVENT_DEDUP_TTL_HOURS;
+  const ttlHours = hours === undefined || hours === "" ? DEFAULT_TTL_HOURS : Number(hours);
+  return (Number.isFinite(ttlHours) ? ttlHours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+// Key format: events/{event_id}.json
+function getEventKey(eventId: string): string {
+  return `events/${eventId}.json`;
+}
+
+function rememberEvent(eventId: string): void {
+  recentEvents.add(eventId);
+  if (recentEvents.size > RECENT_EVENTS_LIMIT) {
+    // Sets iterate in insertion order, so this drops the oldest
+    const oldest = recentEvents.values().next().value;
+    if (oldest !== undefined) {
+      recentEvents.delete(oldest);
+    }
+  }
+}
+
+// Read X-Slack-Retry-Num / X-Slack-Retry-Reason; null for first deliveries
+export function getSlackRetryInfo(headers: IncomingHttpHeaders): SlackRetryInfo | null {
+  const retryNum = Number(headers["x-slack-retry-num"]);
+  if (!Number.isInteger(retryNum) || retryNum <= 0) {
+    return null;
+  }
+  const reason = headers["x-slack-retry-reason"];
+  return {
+    retryNum,
+    retryReason: Array.isArray(reason) ? reason[0] : reason,
+  };
+}
+
+// Record an event ID; returns false if it was already accepted (by this or
+// another instance) within the TTL, so the delivery should only be acknowledged.
+// If storage can't be reached the event is processed rather than dropped.
+export async function claimEvent(
+  eventId: string,
+  retry: SlackRetryInfo | null = null
+): Promise<boolean> {
+  if (recentEvents.has(eventId)) {
+    return false;
+  }
+  // Claim in memory before awaiting so concurrent deliveries here can't both pass
+  rememberEvent(eventId);
+
+  const key = getEventKey(eventId);
+  try {
+    const existing = await readJson<EventMarker>(key);
+    if (existing && Date.now() - new Date(existing.receivedAt).getTime() <= getTtlMs()) {
+      return false;
+    }
+    if (existing) {
+      // Expired; clear it so the marker below can be created
+      await getStorage().delete(key);
+    }
+
+    const marker: EventMarker = {
+      eventId,
+      receivedAt: new Date().toISOString(),
+      retryNum: retry?.retryNum,
+      retryReason: retry?.retryReason,
+    };
+    // Only one instance can create the marker; the others see a conflict
+    await writeJson(key, marker, { allowOverwrite: false });
+  } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return false;
+    }
+    logger.warn("Event deduplication unavailable; processing event", {
+      eventId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return true;
+}
@@ -0,0 +1,153 @@
+import { getSlackClient, isWorkspaceAdmin, isChannelMember } from "./slack.js";
+import { deleteProcessedState } from "./blob.js";
+import { deleteJobs } from "./jobs.js";
+import { deleteCachedResults } from "./ocr-cache.js";
+import { deletePendingUploads } from "./auto-ocr.js";
+import { deleteChannelSettings } from "./channel-settings.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getStorage, writeJson } from "./storage.js";
+import { logger } from "./logger.js";
+
+// What `/ocr forget` deletes data about
+export type ForgetScope =
+  | { type: "thread"; channel: string; threadTs: string }
+  | { type: "channel"; channel: string }
+  | { type: "user"; userId: string };
+
+export interface ForgetCounts {
+  // Processed markers with their saved results
+  processed: number;
+  jobs: number;
+  cachedResults: number;
+  pendingUploads: number;
+  settings: number;
+  logs: number;
+  requestCaptures: number;
+  diagnostics: number;
+}
+
+// Singular labels for the confirmation message, in the order they're listed
+const COUNT_LABELS: Record<keyof ForgetCounts, string> = {
+  processed: "saved result",
+  jobs: "job record",
+  cachedResults: "cached OCR result",
+  pendingUploads: "queued upload",
+  settings: "channel setting",
+  logs: "log file",
+  requestCaptures: "request capture",
+  diagnostics: "diagnostics record",
+};
+
+// Whole-token match, so C123 doesn't match inside C1234 (or a ts inside a longer one)
+function containsId(body: string, id: string): boolean {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^A-Za-z0-9.])${escaped}($|[^A-Za-z0-9])`).test(body);
+}
+
+// Log-like objects are kept whole, so any that mention the scope are deleted
+function mentionsScope(body: string, scope: ForgetScope): boolean {
+  switch (scope.type) {
+    case "thread":
+      return containsId(body, scope.channel) && containsId(body, scope.threadTs);
+    case "channel":
+      return containsId(body, scope.channel);
+    case "user":
+      return containsId(body, scope.userId);
+  }
+}
+
+async function deleteObjectsMentioning(prefix: string, scope: ForgetScope): Promise<number> {
+  const storage = getStorage();
+  const entries = await storage.list(prefix);
+  const matches = await mapWithConcurrency(entries, 8, async ({ key }) => {
+    try {
+      const object = await storage.get(key);
+      return !!object && mentionsScope(object.body, scope);
+    } catch {
+      // Leave unreadable objects to retention
+      return false;
+    }
+  });
+  const keys = entries.filter((_, index) => matches[index]).map((entry) => entry.key);
+  await storage.delete(keys);
+  return keys.length;
+}
+
+// Delete everything stored about the scope and write an audit record
+export async function forgetData(
+  scope: ForgetScope,
+  requestedBy: string
+): Promise<ForgetCounts> {
+  // Jobs first: they say which images (and cache entries) belong to a user
+  const jobs = await deleteJobs(scope);
+  const counts: ForgetCounts = {
+    processed: await deleteProcessedState(scope, jobs.images),
+    jobs: jobs.jobs,
+    cachedResults: await deleteCachedResults(
+      jobs.images.flatMap((image) => (image.imageHash ? [image.imageHash] : []))
+    ),
+    pendingUploads: await deletePendingUploads(scope),
+    settings: scope.type === "channel" && (await deleteChannelSettings(scope.channel)) ? 1 : 0,
+    logs: await deleteObjectsMentioning("logs/", scope),
+    requestCaptures: await deleteObjectsMentioning("debug/", scope),
+    diagnostics: await deleteObjectsMentioning("diagnostics/", scope),
+  };
+
+  // Audit records live outside the scanned prefixes, so later requests keep them
+  const requestedAt = new Date().toISOString();
+  await writeJson(
+    `audit/forget/${Date.now()}-${Math.random().toString(36).substring(2, 8)}.json`,
+    { action: "forget", requestedAt, requestedBy, scope, counts },
+    { pretty: true }
+  );
+  logger.info("Forgot stored data", { scope, requestedBy, counts });
+
+  return counts;
+}
+
+function describeScope(scope: ForgetScope): string {
+  switch (scope.type) {
+    case "thread":
+      return "this thread";
+    case "channel":
+      return `<#${scope.channel}>`;
+    case "user":
+      return `<@${scope.userId}>`;
+  }
+}
+
+export function formatForgetCounts(scope: ForgetScope, counts: ForgetCounts): string {
+  const parts = (Object.keys(COUNT_LABELS) as (keyof ForgetCounts)[])
+    .filter((name) => counts[name] > 0)
+    .map((name) => `${counts[name]} ${COUNT_LABELS[name]}${counts[name] === 1 ? "" : "s"}`);
+  if (parts.length === 0) {
+    return `I didn't have anything stored about ${describeScope(scope)}.`;
+  }
+  const list =
+    parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+  return `Forgot ${describeScope(scope)}: deleted ${list}.`;
+}
+
+// `/ocr forget`, run by requestedBy from the requestedIn channel. Forgetting a
+// user's data is limited to workspace admins; another channel's data (or a
+// thread in it) to its members and admins. Returns a message for the requester.
+export async function forget(
+  scope: ForgetScope,
+  requestedBy: string,
+  requestedIn: string
+): Promise<string> {
+  const client = getSlackClient();
+  if (scope.type === "user") {
+    if (!(await isWorkspaceAdmin(client, requestedBy))) {
+      return "Only workspace admins can delete everything stored about a user. Ask an admin to run `/ocr forget from=@user`.";
+    }
+  } else if (
+    scope.channel !== requestedIn &&
+    !(await isChannelMember(client, scope.channel, requestedBy)) &&
+    !(await isWorkspaceAdmin(client, requestedBy))
+  ) {
+    return `You can only delete data for channels you're a member of. Run \`/ocr forget\` in <#${scope.channel}> or ask a workspace admin.`;
+  }
+  const counts = await forgetData(scope, requestedBy);
+  return formatForgetCounts(scope, counts);
+}
@@ -0,0 +1,283 @@
+import type { OCRResult } from "./ocr.js";
+import type { SlackFile } from "./slack.js";
+import { getThreadResults } from "./blob.js";
+import { getStorage, readJson, writeJson } from "./storage.js";
+import type { ForgetScope } from "./forget.js";
+
+export type JobImageState = "pending" | "done" | "failed";
+
+export interface JobImage {
+  file: SlackFile;
+  state: JobImageState;
+  imageHash?: string;
+  result?: OCRResult;
+  error?: string;
+}
+
+// One OCR request for a thread; persisted so later invocations can finish it
+export interface OCRJob {
+  id: string;
+  channel: string;
+  threadTs: string;
+  statusMessageTs: string;
+  status: "running" | "completed" | "cancelled";
+  force: boolean;
+  targetLanguage: string;
+  // Post only translations (`translate-only`)
+  translationOnly?: boolean;
+  images: JobImage[];
+  // Images skipped because an earlier run already processed them
+  skippedCount: number;
+  // Messages read from the thread when the job was created
+  messagesScanned?: number;
+  invocations: number;
+  createdAt: string;
+  updatedAt: string;
+  // While set and in the future, another invocation is working on the job
+  leaseExpiresAt?: string;
+}
+
+// Every run on a thread keeps its own record, so a new run never overwrites one
+// that still has images to finish. Key format: jobs/{channel_id}_{thread_ts}/{job_id}.json
+function getThreadJobsPrefix(channel: string, threadTs: string): string {
+  return `jobs/${channel}_${threadTs}/`;
+}
+
+function getJobKey(job: Pick<OCRJob, "id" | "channel" | "threadTs">): string {
+  return `${getThreadJobsPrefix(job.channel, job.threadTs)}${job.id}.json`;
+}
+
+export function createJob(params: {
+  channel: string;
+  threadTs: string;
+  statusMessageTs: string;
+  force: boolean;
+  targetLanguage: string;
+  translationOnly?: boolean;
+  files: SlackFile[];
+  skippedCount: number;
+  messagesScanned?: number;
+}): OCRJob {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    channel: params.channel,
+    threadTs: params.threadTs,
+    statusMessageTs: params.statusMessageTs,
+    status: "running",
+    force: params.force,
+    targetLanguage: params.targetLanguage,
+    translationOnly: params.translationOnly,
+    images: params.files.map((file) => ({ file, state: "pending" })),
+    skippedCount: params.skippedCount,
+    messagesScanned: params.messagesScanned,
+    invocations: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Every job for a thread, oldest first
+export async function getThreadJobs(
+  channel: string,
+  threadTs: string
+): Promise<OCRJob[]> {
+  const jobs: OCRJob[] = [];
+  for (const { key } of await getStorage().list(getThreadJobsPrefix(channel, threadTs))) {
+    try {
+      const job = await readJson<OCRJob>(key);
+      if (job) {
+        jobs.push(job);
+      }
+    } catch {
+      // Treat an unreadable job record as no job
+    }
+  }
+  return jobs.sort((a, b) =>
+    a.createdAt === b.createdAt ? (a.id < b.id ? -1 : 1) : a.createdAt < b.createdAt ? -1 : 1
+  );
+}
+
+// Get the latest job for a thread
+export async function getJob(
+  channel: string,
+  threadTs: string
+): Promise<OCRJob | null> {
+  const jobs = await getThreadJobs(channel, threadTs);
+  return jobs[jobs.length - 1] ?? null;
+}
+
+export async function saveJob(job: OCRJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await writeJson(getJobKey(job), job);
+}
+
+// Running jobs are indexed so the resume cron only reads those, not every job
+// ever run. Key format: running-jobs/{channel_id}_{thread_ts}/{job_id}.json
+const RUNNING_JOBS_PREFIX = "running-jobs/";
+
+function getRunningJobKey(job: Pick<OCRJob, "id" | "channel" | "threadTs">): string {
+  return `${RUNNING_JOBS_PREFIX}${getJobKey(job).slice("jobs/".length)}`;
+}
+
+export async function indexRunningJob(job: OCRJob): Promise<void> {
+  await writeJson(getRunningJobKey(job), { jobId: job.id });
+}
+
+export async function unindexRunningJob(job: OCRJob): Promise<void> {
+  await getStorage().delete(getRunningJobKey(job));
+}
+
+export interface JobCancellation {
+  userId?: string;
+  requestedAt: string;
+}
+
+// Cancellation is a separate marker object so progress saves from a running
+// invocation can't overwrite it. Key format: cancellations/{job_id}.json
+function getCancellationKey(jobId: string): string {
+  return `cancellations/${jobId}.json`;
+}
+
+export async function requestJobCancellation(
+  jobId: string,
+  userId?: string
+): Promise<void> {
+  const data: JobCancellation = { userId, requestedAt: new Date().toISOString() };
+  await writeJson(getCancellationKey(jobId), data);
+}
+
+export async function getJobCancellation(
+  jobId: string
+): Promise<JobCancellation | null> {
+  try {
+    const marker = await getStorage().get(getCancellationKey(jobId));
+    if (!marker) {
+      return null;
+    }
+    try {
+      return JSON.parse(marker.body) as JobCancellation;
+    } catch {
+      // The marker exists even if its body can't be read
+      return { requestedAt: marker.metadata.uploadedAt.toISOString() };
+    }
+  } catch {
+    // Not cancelled
+    return null;
+  }
+}
+
+export function isLeaseActive(job: OCRJob, now: number = Date.now()): boolean {
+  return !!job.leaseExpiresAt && new Date(job.leaseExpiresAt).getTime() > now;
+}
+
+// Running jobs that no invocation is currently working on
+export async function listResumableJobs(): Promise<OCRJob[]> {
+  const storage = getStorage();
+  const jobs: OCRJob[] = [];
+
+  for (const { key } of await storage.list(RUNNING_JOBS_PREFIX)) {
+    try {
+      const job = await readJson<OCRJob>(`jobs/${key.slice(RUNNING_JOBS_PREFIX.length)}`);
+      if (!job || job.status !== "running") {
+        // Finished (or forgotten) without clearing its index entry
+        await storage.delete(key);
+      } else if (!isLeaseActive(job)) {
+        jobs.push(job);
+      }
+    } catch {
+      // Skip unreadable job records
+    }
+  }
+
+  return jobs;
+}
+
+// Look up the result for one file: the thread's jobs, latest first, then the
+// results saved with the thread's processed state
+export async function findJobResult(
+  channel: string,
+  threadTs: string,
+  fileId: string
+): Promise<OCRResult | null> {
+  const jobs = await getThreadJobs(channel, threadTs);
+  for (const job of jobs.reverse()) {
+    const jobImage = job.images.find((image) => image.file.id === fileId);
+    if (jobImage?.result) {
+      return jobImage.result;
+    }
+  }
+  const saved = await getThreadResults(channel, threadTs);
+  return saved.find((result) => result.fileId === fileId) ?? null;
+}
+
+export interface DeletedJobImages {
+  // Job records deleted or rewritten
+  jobs: number;
+  // Images whose results were removed, for cleaning up processed state and the cache
+  images: { channel: string; threadTs: string; fileId: string; imageHash?: string }[];
+}
+
+// Delete the job records (and cancellation markers) of a thread or channel. For
+// a user, only their images are removed; jobs left without images are deleted.
+export async function deleteJobs(scope: ForgetScope): Promise<DeletedJobImages> {
+  const storage = getStorage();
+  const prefix =
+    scope.type === "thread"
+      ? getThreadJobsPrefix(scope.channel, scope.threadTs)
+      : scope.type === "channel"
+        ? `jobs/${scope.channel}_`
+        : "jobs/";
+  const deleted: DeletedJobImages = { jobs: 0, images: [] };
+
+  for (const { key } of await storage.list(prefix)) {
+    const job = await readJson<OCRJob>(key).catch(() => null);
+    if (!job) {
+      // Unreadable records can't be attributed to a user
+      if (scope.type !== "user") {
+        await storage.delete([key, `${RUNNING_JOBS_PREFIX}${key.slice("jobs/".length)}`]);
+        deleted.jobs++;
+      }
+      continue;
+    }
+
+    const removed =
+      scope.type === "user"
+        ? job.images.filter((image) => image.file.user === scope.userId)
+        : job.images;
+    if (scope.type === "user" && removed.length === 0) {
+      continue;
+    }
+
+    deleted.jobs++;
+    deleted.images.push(
+      ...removed.map((image) => ({
+        channel: job.channel,
+        threadTs: job.threadTs,
+        fileId: image.file.id,
+        imageHash: image.imageHash,
+      }))
+    );
+
+    if (removed.length < job.images.length) {
+      job.images = job.images.filter((image) => !removed.includes(image));
+      await saveJob(job);
+    } else {
+      await storage.delete([
+        key,
+        getCancellationKey(job.id),
+        getRunningJobKey(job),
+      ]);
+    }
+  }
+
+  return deleted;
+}
+
+export function countImagesByState(job: OCRJob): Record<JobImageState, number> {
+  const counts: Record<JobImageState, number> = { pending: 0, done: 0, failed: 0 };
+  for (const image of job.images) {
+    counts[image.state]++;
+  }
+  return counts;
+}
@@ -0,0 +1,112 @@
+import type { WebClient } from "@slack/web-api";
+import { getChannelSettings, updateChannelSettings } from "./channel-settings.js";
+
+export const DEFAULT_TARGET_LANGUAGE = "English";
+
+// ISO 639-1 codes (and Slack locale prefixes) to the language names used in prompts
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  pt: "Portuguese",
+  it: "Italian",
+  nl: "Dutch",
+  pl: "Polish",
+  sv: "Swedish",
+  da: "Danish",
+  no: "Norwegian",
+  fi: "Finnish",
+  cs: "Czech",
+  tr: "Turkish",
+  ru: "Russian",
+  uk: "Ukrainian",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+  ar: "Arabic",
+  hi: "Hindi",
+};
+
+// Languages offered in pickers (Translate menu, options modal)
+export function getLanguageChoices(): { code: string; name: string }[] {
+  return Object.entries(LANGUAGE_NAMES).map(([code, name]) => ({ code, name }));
+}
+
+// Turn "de", "de-DE", "pt_BR" or "german" into a language name; undefined if unrecognised
+export function normalizeLanguage(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim().toLowerCase();
+  const code = trimmed.split(/[-_]/)[0];
+  if (LANGUAGE_NAMES[code]) {
+    return LANGUAGE_NAMES[code];
+  }
+
+  const byName = Object.values(LANGUAGE_NAMES).find(
+    (name) => name.toLowerCase() === trimmed
+  );
+  return byName;
+}
+
+// Save (or clear with "off"/"auto") a channel's default language; returns a message for the user
+export async function setChannelDefaultLanguage(
+  channel: string,
+  value: string
+): Promise<string> {
+  if (/^(off|auto|none)$/i.test(value)) {
+    await updateChannelSettings(channel, { targetLanguage: undefined });
+    return "Cleared the default translation language for this channel. Translations will follow each user's Slack language.";
+  }
+
+  const language = normalizeLanguage(value);
+  if (!language) {
+    return `Unknown language \`${value}\`. Use a language code like \`de\` or \`pt\`.`;
+  }
+
+  await updateChannelSettings(channel, { targetLanguage: language });
+  return `Default translation language for this channel is now ${language}.`;
+}
+
+// Read the requesting user's Slack locale (requires the users:read scope)
+async function getUserLocaleLanguage(
+  client: WebClient,
+  userId: string
+): Promise<string | undefined> {
+  try {
+    const result = await client.users.info({ user: userId, include_locale: true });
+    return normalizeLanguage(result.user?.locale);
+  } catch {
+    // Missing scope or unknown user: fall through to the default
+    return undefined;
+  }
+}
+
+// Pick the translation target: explicit option, then channel default, then user locale
+export async function resolveTargetLanguage(
+  client: WebClient,
+  channel: string,
+  options: { requested?: string; userId?: string } = {}
+): Promise<string> {
+  const requested = normalizeLanguage(options.requested);
+  if (requested) {
+    return requested;
+  }
+
+  const settings = await getChannelSettings(channel);
+  const channelDefault = normalizeLanguage(settings.targetLanguage);
+  if (channelDefault) {
+    return channelDefault;
+  }
+
+  if (options.userId) {
+    const localeLanguage = await getUserLocaleLanguage(client, options.userId);
+    if (localeLanguage) {
+      return localeLanguage;
+    }
+  }
+
+  return DEFAULT_TARGET_LANGUAGE;
+}
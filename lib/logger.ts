@@ -1,86 +1,192 @@
-import { put } from "@vercel/blob";
+import { AsyncLocalStorage } from "async_hooks";
+import { writeJson, describeLocation } from "./storage.js";
+import { redact } from "./redact.js";
+
+// Identifies which request an entry belongs to when invocations interleave
+export interface LogCorrelation {
+  eventId?: string;
+  channel?: string;
+  threadTs?: string;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Where entries go: the function's console output and the session saved to storage
+export type LogSink = "console" | "storage";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
 
 interface LogEntry {
   timestamp: string;
-  level: "info" | "error" | "debug" | "warn";
+  level: LogLevel;
   message: string;
+  correlation?: LogCorrelation;
   data?: unknown;
 }
 
 interface LogSession {
   sessionId: string;
+  context: string;
   startTime: string;
+  correlation: LogCorrelation;
   entries: LogEntry[];
 }
 
-// In-memory log buffer for current session
-let currentSession: LogSession | null = null;
+interface LogScope {
+  // Entries are buffered here until the session is flushed
+  session: LogSession | null;
+  correlation: LogCorrelation;
+}
+
+// Each session lives in the async context of the work that started it, so
+// concurrent waitUntil tasks in one instance keep separate sessions
+const scopeStorage = new AsyncLocalStorage<LogScope>();
 
 function getSessionId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
-export function startLogSession(context: string): string {
-  const sessionId = getSessionId();
-  currentSession = {
-    sessionId,
-    startTime: new Date().toISOString(),
-    entries: [],
-  };
-  log("info", `Log session started: ${context}`, { context });
-  return sessionId;
+// Drop unset fields so entries only show what is known
+function compactCorrelation(correlation: LogCorrelation): LogCorrelation {
+  return Object.fromEntries(
+    Object.entries(correlation).filter(([, value]) => value !== undefined && value !== "")
+  ) as LogCorrelation;
+}
+
+// e.g. "[event=Ev123 channel=C123 thread=1712345678.000100]"
+function formatCorrelation(correlation: LogCorrelation): string {
+  const parts = [
+    correlation.eventId && `event=${correlation.eventId}`,
+    correlation.channel && `channel=${correlation.channel}`,
+    correlation.threadTs && `thread=${correlation.threadTs}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` [${parts.join(" ")}]` : "";
+}
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.trim().toLowerCase();
+  return level && level in LEVEL_ORDER ? (level as LogLevel) : undefined;
+}
+
+// Minimum level per sink: OCR_LOG_CONSOLE_LEVEL / OCR_LOG_STORAGE_LEVEL, then
+// OCR_LOG_LEVEL for both, then info
+function getMinimumLevel(sink: LogSink): LogLevel {
+  const sinkLevel =
+    sink === "console" ? process.env.OCR_LOG_CONSOLE_LEVEL : process.env.OCR_LOG_STORAGE_LEVEL;
+  return parseLevel(sinkLevel) ?? parseLevel(process.env.OCR_LOG_LEVEL) ?? "info";
+}
+
+export function isLogLevelEnabled(sink: LogSink, level: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[getMinimumLevel(sink)];
+}
+
+// OCR_LOG_FORMAT=json writes one JSON object per line for log drains
+function isJsonConsole(): boolean {
+  return process.env.OCR_LOG_FORMAT?.trim().toLowerCase() === "json";
 }
 
-export function log(
-  level: LogEntry["level"],
-  message: string,
-  data?: unknown
-): void {
-  const entry: LogEntry = {
+function writeConsole(entry: LogEntry): void {
+  if (!isLogLevelEnabled("console", entry.level)) {
+    return;
+  }
+  const consoleMethod = entry.level === "error" ? console.error : console.log;
+  if (isJsonConsole()) {
+    consoleMethod(JSON.stringify(entry));
+  } else {
+    consoleMethod(
+      `[${entry.level.toUpperCase()}]${formatCorrelation(entry.correlation ?? {})} ${entry.message}`,
+      entry.data ?? ""
+    );
+  }
+}
+
+function createEntry(level: LogLevel, message: string, data?: unknown): LogEntry {
+  const correlation = scopeStorage.getStore()?.correlation ?? {};
+  return {
     timestamp: new Date().toISOString(),
     level,
-    message,
-    data,
+    message: redact(message),
+    correlation: Object.keys(correlation).length > 0 ? correlation : undefined,
+    // Payloads are redacted before reaching either sink
+    data: data === undefined ? undefined : redact(data),
   };
+}
 
-  // Always console log
-  const consoleMethod = level === "error" ? console.error : console.log;
-  consoleMethod(`[${level.toUpperCase()}] ${message}`, data ?? "");
+export function log(level: LogLevel, message: string, data?: unknown): void {
+  const entry = createEntry(level, message, data);
+  writeConsole(entry);
 
-  // Add to session buffer
-  if (currentSession) {
-    currentSession.entries.push(entry);
+  const session = scopeStorage.getStore()?.session;
+  if (session && isLogLevelEnabled("storage", level)) {
+    session.entries.push(entry);
   }
 }
 
-export async function flushLogs(): Promise<string | null> {
-  if (!currentSession || currentSession.entries.length === 0) {
+async function flushSession(session: LogSession): Promise<string | null> {
+  if (session.entries.length === 0) {
     return null;
   }
 
-  const session = currentSession;
-  currentSession = null;
-
   try {
     const logKey = `logs/${session.startTime.split("T")[0]}/${session.sessionId}.json`;
-    const blob = await put(logKey, JSON.stringify(session, null, 2), {
-      access: "public",
-      addRandomSuffix: false,
-    });
-    console.log(`Logs saved to: ${blob.url}`);
-    return blob.url;
+    const saved = await writeJson(logKey, session, { pretty: true });
+    const location = describeLocation(saved);
+    // Console only: the session has already been saved
+    writeConsole(createEntry("info", `Logs saved to: ${location}`));
+    return location;
   } catch (error) {
-    console.error("Failed to save logs to blob:", error);
+    writeConsole(createEntry("error", "Failed to save logs to storage", { error }));
     return null;
   }
 }
 
+// Run fn in its own log session and persist the session when fn settles
+export async function withLogSession<T>(
+  context: string,
+  correlation: LogCorrelation,
+  fn: () => Promise<T>
+): Promise<T> {
+  const compact = compactCorrelation(correlation);
+  const session: LogSession = {
+    sessionId: getSessionId(),
+    context,
+    startTime: new Date().toISOString(),
+    correlation: compact,
+    entries: [],
+  };
+
+  return scopeStorage.run({ session, correlation: compact }, async () => {
+    log("info", `Log session started: ${context}`, { context });
+    try {
+      return await fn();
+    } finally {
+      await flushSession(session);
+    }
+  });
+}
+
+// Run fn with extra correlation fields (e.g. the thread once it is known),
+// logging into the current session if there is one
+export function withLogContext<T>(
+  correlation: LogCorrelation,
+  fn: () => Promise<T>
+): Promise<T> {
+  const scope = scopeStorage.getStore();
+  return scopeStorage.run(
+    {
+      session: scope?.session ?? null,
+      correlation: { ...scope?.correlation, ...compactCorrelation(correlation) },
+    },
+    fn
+  );
+}
+
 // Convenience methods
 export const logger = {
   info: (message: string, data?: unknown) => log("info", message, data),
   error: (message: string, data?: unknown) => log("error", message, data),
   debug: (message: string, data?: unknown) => log("debug", message, data),
   warn: (message: string, data?: unknown) => log("warn", message, data),
-  start: startLogSession,
-  flush: flushLogs,
+  session: withLogSession,
+  context: withLogContext,
 };
@@ -0,0 +1,129 @@
+import crypto from "crypto";
+import { performOCR, type OCRResult } from "./ocr.js";
+import { getOCRProvider } from "./ocr-provider.js";
+import { DEFAULT_TARGET_LANGUAGE } from "./language.js";
+import { logger } from "./logger.js";
+import { getStorage, readJson, writeJson } from "./storage.js";
+
+// Cached results expire after OCR_CACHE_TTL_HOURS (default 7 days); 0 disables the cache
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+interface CachedOCRResult {
+  cachedAt: string;
+  version: string;
+  result: OCRResult;
+}
+
+function getTtlMs(): number {
+  const hours = process.env.OCR_CACHE_TTL_HOURS;
+  const ttlHours = hours === undefined || hours === "" ? DEFAULT_TTL_HOURS : Number(hours);
+  return Number.isFinite(ttlHours) ? ttlHours * 60 * 60 * 1000 : 0;
+}
+
+// SHA-256 of the raw image bytes, shared across threads and channels
+export function hashImage(imageBuffer: Buffer): string {
+  return crypto.createHash("sha256").update(imageBuffer).digest("hex");
+}
+
+// Key format: ocr-cache/{image_sha256}/{version_hash}.json
+function getCacheKey(imageHash: string, version: string): string {
+  const versionHash = crypto
+    .createHash("sha256")
+    .update(version)
+    .digest("hex")
+    .slice(0, 16);
+  return `ocr-cache/${imageHash}/${versionHash}.json`;
+}
+
+async function getCachedResult(
+  key: string,
+  ttlMs: number
+): Promise<OCRResult | null> {
+  try {
+    const data = await readJson<CachedOCRResult>(key);
+    if (!data) {
+      return null;
+    }
+
+    const age = Date.now() - new Date(data.cachedAt).getTime();
+    if (age <= ttlMs) {
+      return data.result;
+    }
+
+    // Expired entries are never read again, so drop them instead of waiting for cleanup
+    await getStorage().delete([key]);
+    return null;
+  } catch {
+    // A cache read failure is a miss
+    return null;
+  }
+}
+
+async function setCachedResult(
+  key: string,
+  version: string,
+  result: OCRResult
+): Promise<void> {
+  const data: CachedOCRResult = {
+    cachedAt: new Date().toISOString(),
+    version,
+    result,
+  };
+
+  try {
+    await writeJson(key, data);
+  } catch (error) {
+    // Caching is best-effort
+    logger.warn("Failed to cache OCR result", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Delete every cached result for these images (all provider versions and
+// languages); returns the number of entries removed
+export async function deleteCachedResults(imageHashes: string[]): Promise<number> {
+  const storage = getStorage();
+  let deleted = 0;
+  for (const imageHash of new Set(imageHashes)) {
+    const keys = (await storage.list(`ocr-cache/${imageHash}/`)).map((entry) => entry.key);
+    await storage.delete(keys);
+    deleted += keys.length;
+  }
+  return deleted;
+}
+
+// performOCR behind a content-hash cache keyed by image bytes, provider version and target language
+export async function performCachedOCR(
+  imageBuffer: Buffer,
+  fileName: string,
+  fileId: string,
+  mimeType: string,
+  options: { targetLanguage?: string; force?: boolean; imageHash?: string } = {}
+): Promise<OCRResult> {
+  const ttlMs = getTtlMs();
+  const targetLanguage = options.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+  const version = `${getOCRProvider().version}:${targetLanguage}`;
+  const key = getCacheKey(options.imageHash || hashImage(imageBuffer), version);
+
+  if (ttlMs > 0 && !options.force) {
+    const cached = await getCachedResult(key, ttlMs);
+    if (cached) {
+      logger.info("OCR cache hit", { fileId, key });
+      // No model call was made for this result
+      return { ...cached, fileName, fileId, cached: true, attempts: 0, usedFallbackModel: false };
+    }
+  }
+
+  const result = await performOCR(imageBuffer, fileName, fileId, mimeType, {
+    targetLanguage,
+  });
+
+  // Failures are not cached so the next run tries again
+  if (ttlMs > 0 && !result.error) {
+    await setCachedResult(key, version, result);
+  }
+
+  return result;
+}
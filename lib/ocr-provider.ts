@@ -0,0 +1,65 @@
+import type { OCRResult } from "./ocr.js";
+import { createGeminiProvider } from "./providers/gemini.js";
+import { createMockProvider } from "./providers/mock.js";
+import { createLocalProvider } from "./providers/local.js";
+
+export interface OCRInput {
+  imageBuffer: Buffer;
+  fileName: string;
+  fileId: string;
+  mimeType: string;
+  // Language to translate into; providers default to English
+  targetLanguage?: string;
+}
+
+// Every OCR backend takes an image and returns the same OCRResult shape
+export interface OCRProvider {
+  name: string;
+  // Changes whenever the provider's output could change (prompt, models); part of the cache key
+  version: string;
+  recognize(input: OCRInput): Promise<OCRResult>;
+}
+
+export type OCRProviderName = "gemini" | "mock" | "local";
+
+const providerFactories: Record<OCRProviderName, () => OCRProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+  local: createLocalProvider,
+};
+
+// Providers are created once per instance (the local engine keeps a worker alive)
+const providerCache = new Map<OCRProviderName, OCRProvider>();
+let overrideProvider: OCRProvider | null = null;
+
+function isProviderName(name: string): name is OCRProviderName {
+  return name in providerFactories;
+}
+
+// Resolve the provider from OCR_PROVIDER (defaults to Gemini)
+export function getOCRProvider(
+  name: string = process.env.OCR_PROVIDER || "gemini"
+): OCRProvider {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  const normalized = name.trim().toLowerCase();
+  if (!isProviderName(normalized)) {
+    throw new Error(
+      `Unknown OCR provider "${name}". Expected one of: ${Object.keys(providerFactories).join(", ")}`
+    );
+  }
+
+  let provider = providerCache.get(normalized);
+  if (!provider) {
+    provider = providerFactories[normalized]();
+    providerCache.set(normalized, provider);
+  }
+  return provider;
+}
+
+// Explicitly configure the provider (e.g. in tests); pass null to go back to env selection
+export function setOCRProvider(provider: OCRProvider | null): void {
+  overrideProvider = provider;
+}
@@ -1,190 +1,97 @@
-import { generateText, gateway } from "ai";
+import type { KnownBlock } from "@slack/web-api";
+import { getOCRProvider } from "./ocr-provider.js";
+import { DEFAULT_TARGET_LANGUAGE, getLanguageChoices } from "./language.js";
 
 export interface OCRResult {
   fileName: string;
   fileId: string;
   text: string;
   language: string;
-  englishTranslation?: string;
+  // Language the text was translated into (English unless configured otherwise)
+  targetLanguage?: string;
+  translation?: string;
   originalText?: string;
   noTextFound: boolean;
+  // Set when OCR failed (e.g. invalid model output), as opposed to an image without text
+  error?: string;
   contentType: "website" | "document" | "photo" | "other";
-}
-
-const OCR_PROMPT = `You are an OCR assistant. Extract ALL text from this image completely and accurately.
-
-CRITICAL RULES:
-1. Extract EVERY word, sentence, and paragraph - DO NOT summarize or shorten
-2. Preserve the COMPLETE text exactly as it appears
-3. For documents, articles, or long text: include EVERYTHING from start to finish
-4. Never skip content, never truncate, never say "etc." or "..."
-5. If text continues beyond visible area, extract everything that IS visible
-
-Identify the content type:
-- "website": Screenshot of website, app, dashboard, or software UI
-- "document": Scanned document, PDF, article, receipt, or printed text
-- "photo": Photo of real-world text (signs, labels, handwriting)
-- "other": Any other image with text
-
-FORMAT RULES (using Slack mrkdwn syntax):
-- Use *bold* for headers and titles only
-- Use • for bullet lists
-- Use nested bullets with two-space indentation for subitems
-- Use \`\`\` code blocks \`\`\` ONLY for actual code, terminal output, or tables
-- Preserve paragraph breaks with blank lines
-- For documents/articles: output as flowing text with proper paragraphs
-
-STRUCTURE FOR DATA AND TABLES:
-- When information is tabular (metrics, key/value grids, columns), format it as a readable table
-- For Slack, use a monospaced table inside a code block to preserve alignment
-- Keep column headers short and rows aligned with spaces
-- If alignment is not possible, use a two-level bullet list (section header + key/value bullets)
-- Preserve every label and value from the original; do not omit entries
-
-FOR UI/SCREENSHOTS ONLY:
-- Skip navigation menus, breadcrumbs, repetitive UI chrome
-- Focus on main content area
-- Keep status messages, errors, and key data
-
-FOR DOCUMENTS/ARTICLES/LONG TEXT:
-- Extract the COMPLETE text word-for-word
-- Maintain paragraph structure
-- Include ALL sentences - this is critical
-- Do not summarize or paraphrase
-
-Respond in this exact JSON format:
-{
-  "contentType": "website" | "document" | "photo" | "other",
-  "language": "detected language name",
-  "isEnglish": true or false,
-  "extractedText": "the complete extracted text with Slack mrkdwn formatting",
-  "englishTranslation": "English translation if not originally English, otherwise null"
-}
-
-If NO text is found:
-{
-  "contentType": "other",
-  "language": "none",
-  "isEnglish": false,
-  "extractedText": null,
-  "englishTranslation": null
-}
-
-IMPORTANT: Return ONLY valid JSON, no markdown code blocks around the JSON.`;
-
-interface GeminiOCRResponse {
-  contentType: "website" | "document" | "photo" | "other";
-  language: string;
-  isEnglish: boolean;
-  extractedText: string | null;
-  englishTranslation: string | null;
+  // Which model produced the result and how many calls it took
+  model?: string;
+  attempts?: number;
+  usedFallbackModel?: boolean;
+  // Served from the content-hash cache instead of a new OCR call
+  cached?: boolean;
+  // Other files in the thread with identical bytes, collapsed into this result
+  duplicateFileNames?: string[];
 }
 
 export async function performOCR(
   imageBuffer: Buffer,
   fileName: string,
   fileId: string,
-  mimeType: string
+  mimeType: string,
+  options: { targetLanguage?: string } = {}
 ): Promise<OCRResult> {
-  // Use Vercel AI Gateway with Gemini 2.5 Flash
-  // OIDC authentication is automatic on Vercel deployments
-  const { text } = await generateText({
-    model: gateway("google/gemini-2.5-flash"),
-    maxOutputTokens: 16000, // Allow long responses for documents with lots of text
-    messages: [
-      {
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: OCR_PROMPT,
-          },
-          {
-            type: "image",
-            image: imageBuffer,
-          },
-        ],
-      },
-    ],
+  // Delegate to the provider selected by OCR_PROVIDER (Gemini by default)
+  return getOCRProvider().recognize({
+    imageBuffer,
+    fileName,
+    fileId,
+    mimeType,
+    targetLanguage: options.targetLanguage,
   });
-
-  // Parse the JSON response
-  let response: GeminiOCRResponse;
-  try {
-    // Clean up potential markdown code blocks
-    const cleanedText = text
-      .replace(/^```json\n?/i, "")
-      .replace(/\n?```$/i, "")
-      .trim();
-    response = JSON.parse(cleanedText);
-  } catch {
-    // If parsing fails, treat as no text found
-    console.error("Failed to parse OCR response:", text);
-    return {
-      fileName,
-      fileId,
-      text: "",
-      language: "unknown",
-      noTextFound: true,
-      contentType: "other",
-    };
-  }
-
-  // Handle no text found
-  if (!response.extractedText) {
-    return {
-      fileName,
-      fileId,
-      text: "",
-      language: "none",
-      noTextFound: true,
-      contentType: "other",
-    };
-  }
-
-  const contentType = response.contentType || "other";
-
-  // Return result based on whether translation was needed
-  if (response.isEnglish) {
-    return {
-      fileName,
-      fileId,
-      text: response.extractedText,
-      language: response.language,
-      noTextFound: false,
-      contentType,
-    };
-  } else {
-    return {
-      fileName,
-      fileId,
-      text: response.englishTranslation || response.extractedText,
-      language: response.language,
-      englishTranslation: response.englishTranslation || undefined,
-      originalText: response.extractedText,
-      noTextFound: false,
-      contentType,
-    };
-  }
 }
 
 // Format OCR results for Slack message
-export function formatOCRResultsForSlack(results: OCRResult[]): string {
+export function formatOCRResultsForSlack(
+  results: OCRResult[],
+  options: OCRFormatOptions = {}
+): string {
   if (results.length === 0) {
     return "No images found in this thread.";
   }
+  return formatOCRResultSections(results, options).join(RESULT_SEPARATOR);
+}
+
+export interface OCRFormatOptions {
+  // Show only translations; text already in the target language is just noted
+  translationOnly?: boolean;
+}
+
+// Body for a result in translate-only mode that needed no translation
+function formatNothingToTranslate(result: OCRResult): string {
+  return `_Already in ${result.targetLanguage || DEFAULT_TARGET_LANGUAGE}; nothing to translate._`;
+}
+
+// Separator between images in the mrkdwn rendering
+export const RESULT_SEPARATOR = "\n\n---\n\n";
 
-  const formattedResults = results.map((result) => {
+// One mrkdwn section per image, so long output can be split between images
+export function formatOCRResultSections(
+  results: OCRResult[],
+  options: OCRFormatOptions = {}
+): string[] {
+  const sections = results.map((result) => {
     // For single image, don't show filename header to reduce noise
     const showHeader = results.length > 1;
-    let output = showHeader ? `*${result.fileName}*\n\n` : "";
+    const duplicates = result.duplicateFileNames?.length
+      ? ` _(same image as ${result.duplicateFileNames.join(", ")})_`
+      : "";
+    let output = showHeader ? `*${result.fileName}*${duplicates}\n\n` : "";
 
-    if (result.noTextFound) {
+    if (result.error) {
+      output += `_Could not read this image: ${result.error}. Mention me again to retry._`;
+    } else if (result.noTextFound) {
       output += "_No text found in image._";
-    } else if (result.englishTranslation && result.originalText) {
-      // Non-English text with translation
-      output += `*English Translation:*\n${result.text}`;
-      output += `\n\n---\n\n*Original (${result.language}):*\n${result.originalText}`;
+    } else if (result.translation && result.originalText) {
+      // Text in another language, with translation
+      const targetLanguage = result.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+      output += `*${targetLanguage} Translation:*\n${result.text}`;
+      if (!options.translationOnly) {
+        output += `\n\n---\n\n*Original (${result.language}):*\n${result.originalText}`;
+      }
+    } else if (options.translationOnly) {
+      output += formatNothingToTranslate(result);
     } else {
       // Text is already Slack-formatted from the AI
       output += result.text;
@@ -193,5 +100,207 @@ export function formatOCRResultsForSlack(results: OCRResult[]): string {
     return output;
   });
 
-  return formattedResults.join("\n\n---\n\n");
+  // Let users know when the primary model was unavailable
+  const fallbackResults = results.filter((result) => result.usedFallbackModel);
+  if (fallbackResults.length > 0 && sections.length > 0) {
+    const names = fallbackResults
+      .map((result) => `${result.fileName} (${result.model})`)
+      .join(", ");
+    sections[sections.length - 1] += `\n\n_Note: Processed with a fallback model: ${names}_`;
+  }
+
+  return sections;
+}
+
+// Plain-text export of a single result (Download as text)
+export function formatOCRResultAsText(result: OCRResult): string {
+  const lines = [result.fileName, ""];
+  if (result.error) {
+    lines.push(`Could not read this image: ${result.error}`);
+  } else if (result.noTextFound) {
+    lines.push("No text found in image.");
+  } else if (result.translation && result.originalText) {
+    const targetLanguage = result.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+    lines.push(`${targetLanguage} translation:`, result.text, "");
+    lines.push(`Original (${result.language}):`, result.originalText);
+  } else {
+    lines.push(result.text);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Markdown export of a thread's results
+export function formatOCRResultsAsMarkdown(results: OCRResult[]): string {
+  const sections = results.map((result) => {
+    const lines = [`## ${result.fileName}`, ""];
+    if (result.error) {
+      lines.push(`_Could not read this image: ${result.error}_`);
+    } else if (result.noTextFound) {
+      lines.push("_No text found in image._");
+    } else if (result.translation && result.originalText) {
+      const targetLanguage = result.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+      lines.push(`### ${targetLanguage} translation`, "", result.text, "");
+      lines.push(`### Original (${result.language})`, "", result.originalText);
+    } else {
+      lines.push(result.text);
+    }
+    return lines.join("\n");
+  });
+  return `# OCR results\n\n${sections.join("\n\n")}\n`;
+}
+
+// Slack limits: 50 blocks per message, 3000 characters per section text
+const SLACK_MAX_BLOCKS = 50;
+const SLACK_MAX_SECTION_LENGTH = 3000;
+
+const CONTENT_TYPE_LABELS: Record<OCRResult["contentType"], string> = {
+  website: "Screenshot",
+  document: "Document",
+  photo: "Photo",
+  other: "Image",
+};
+
+export interface OCRBlocksContext {
+  channel: string;
+  threadTs: string;
+  // Permalink of the message each file was posted in, by file ID
+  sourceLinks?: Record<string, string>;
+  translationOnly?: boolean;
+  // Footnotes shown after the results, one context block each
+  notes?: string[];
+}
+
+// Value carried by result buttons so the interactivity handler can find the image again
+export interface OCRActionValue {
+  channel: string;
+  threadTs: string;
+  fileId: string;
+  // Set on Translate menu options
+  lang?: string;
+}
+
+// Split text into section-sized chunks, preferring line breaks
+function splitForSections(text: string): string[] {
+  const chunks: string[] = [];
+  let remaining = text;
+  while (remaining.length > SLACK_MAX_SECTION_LENGTH) {
+    let cut = remaining.lastIndexOf("\n", SLACK_MAX_SECTION_LENGTH);
+    if (cut <= 0) {
+      cut = SLACK_MAX_SECTION_LENGTH;
+    }
+    chunks.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut).replace(/^\n/, "");
+  }
+  if (remaining) {
+    chunks.push(remaining);
+  }
+  return chunks;
+}
+
+// Format OCR results as Block Kit: one section per image with context and actions.
+// Returns null when the results don't fit in one message; callers fall back to text.
+export function formatOCRResultsAsBlocks(
+  results: OCRResult[],
+  context: OCRBlocksContext
+): KnownBlock[] | null {
+  if (results.length === 0) {
+    return null;
+  }
+
+  const blocks: KnownBlock[] = [];
+
+  results.forEach((result, index) => {
+    if (index > 0) {
+      blocks.push({ type: "divider" });
+    }
+
+    const link = context.sourceLinks?.[result.fileId];
+    const title = link ? `<${link}|${result.fileName}>` : result.fileName;
+    const duplicates = result.duplicateFileNames?.length
+      ? ` _(same image as ${result.duplicateFileNames.join(", ")})_`
+      : "";
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: `*${title}*${duplicates}` },
+    });
+
+    let body: string;
+    if (result.error) {
+      body = `_Could not read this image: ${result.error}. Use Re-run to try again._`;
+    } else if (result.noTextFound) {
+      body = "_No text found in image._";
+    } else if (result.translation && result.originalText) {
+      const targetLanguage = result.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+      body = `*${targetLanguage} Translation:*\n${result.text}`;
+    } else if (context.translationOnly) {
+      body = formatNothingToTranslate(result);
+    } else {
+      body = result.text;
+    }
+    for (const chunk of splitForSections(body)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+    }
+
+    const details = [
+      result.language && result.language !== "none" && result.language !== "unknown"
+        ? `Language: ${result.language}`
+        : null,
+      CONTENT_TYPE_LABELS[result.contentType] || CONTENT_TYPE_LABELS.other,
+      result.usedFallbackModel && result.model ? `Fallback model: ${result.model}` : null,
+    ].filter(Boolean);
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: details.join(" · ") }],
+    });
+
+    const value: OCRActionValue = {
+      channel: context.channel,
+      threadTs: context.threadTs,
+      fileId: result.fileId,
+    };
+    const buttonValue = JSON.stringify(value);
+    blocks.push({
+      type: "actions",
+      block_id: `ocr_actions_${result.fileId}`,
+      elements: [
+        ...(result.originalText
+          ? [
+              {
+                type: "button" as const,
+                action_id: "ocr_show_original",
+                text: { type: "plain_text" as const, text: "Show original" },
+                value: buttonValue,
+              },
+            ]
+          : []),
+        {
+          type: "button",
+          action_id: "ocr_rerun",
+          text: { type: "plain_text", text: "Re-run" },
+          value: buttonValue,
+        },
+        {
+          type: "button",
+          action_id: "ocr_download",
+          text: { type: "plain_text", text: "Download as text" },
+          value: buttonValue,
+        },
+        {
+          type: "static_select",
+          action_id: "ocr_translate",
+          placeholder: { type: "plain_text", text: "Translate to..." },
+          options: getLanguageChoices().map(({ code, name }) => ({
+            text: { type: "plain_text" as const, text: name },
+            value: JSON.stringify({ ...value, lang: code }),
+          })),
+        },
+      ],
+    });
+  });
+
+  for (const note of context.notes ?? []) {
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: note }] });
+  }
+
+  return blocks.length <= SLACK_MAX_BLOCKS ? blocks : null;
 }
@@ -1,31 +1,71 @@
+import type { WebClient } from "@slack/web-api";
 import {
   getSlackClient,
+  getFailFastSlackClient,
   getThreadMessages,
   findImagesInThread,
   downloadImage,
   postMessageToThread,
   updateMessage,
+  getWorkspaceUrl,
+  buildMessagePermalink,
+  uploadTextToThread,
+  filterImages,
+  type ImageFilter,
 } from "./slack.js";
 import {
   getProcessedFileIds,
+  getThreadResults,
   markFilesAsProcessed,
   filterUnprocessedFiles,
 } from "./blob.js";
-import { performOCR, formatOCRResultsForSlack, type OCRResult } from "./ocr.js";
+import {
+  formatOCRResultSections,
+  formatOCRResultsAsBlocks,
+  formatOCRResultsAsMarkdown,
+  RESULT_SEPARATOR,
+  type OCRResult,
+} from "./ocr.js";
+import { performCachedOCR, hashImage } from "./ocr-cache.js";
 import { logger } from "./logger.js";
-import { put } from "@vercel/blob";
-
-const MAX_IMAGES = 50;
+import { mapWithConcurrency } from "./concurrency.js";
+import { splitMessage } from "./split-message.js";
+import { createProgressReporter } from "./progress.js";
+import { resolveTargetLanguage } from "./language.js";
+import {
+  createJob,
+  getThreadJobs,
+  saveJob,
+  indexRunningJob,
+  unindexRunningJob,
+  isLeaseActive,
+  countImagesByState,
+  requestJobCancellation,
+  getJobCancellation,
+  type OCRJob,
+  type JobCancellation,
+} from "./jobs.js";
+import { writeJson, describeLocation } from "./storage.js";
+
+const MAX_IMAGES = 50; // Per invocation; remaining images are picked up by the next one
+const DEFAULT_CONCURRENCY = Number(process.env.OCR_CONCURRENCY) || 4;
 const SLACK_MAX_TEXT_LENGTH = 38_000; // Slack truncates at 40,000; use 38K to leave margin
+// Output that would need more messages than this is uploaded as a file instead
+const MAX_RESULT_MESSAGES = Number(process.env.OCR_MAX_RESULT_MESSAGES) || 3;
+// Stop starting new images after this long so the job can be saved before maxDuration (300s)
+const INVOCATION_BUDGET_MS = Number(process.env.OCR_INVOCATION_BUDGET_MS) || 240_000;
+const LEASE_MARGIN_MS = 60_000;
+const CANCEL_CHECK_INTERVAL_MS = 2_000;
+
+function formatMessageCount(count: number): string {
+  return `${count} message${count === 1 ? "" : "s"}`;
+}
 
 async function logDiagnostics(data: Record<string, unknown>): Promise<void> {
   try {
     const key = `diagnostics/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
-    const blob = await put(key, JSON.stringify({ timestamp: new Date().toISOString(), ...data }, null, 2), {
-      access: "public",
-      addRandomSuffix: false,
-    });
-    console.log(`[diag] ${blob.url}`);
+    const saved = await writeJson(key, { timestamp: new Date().toISOString(), ...data }, { pretty: true });
+    console.log(`[diag] ${describeLocation(saved)}`);
   } catch {
     // best-effort, don't break processing
   }
@@ -38,16 +78,59 @@ export interface ProcessThreadResult {
   skippedCount: number;
 }
 
+export interface ProcessThreadOptions extends ImageFilter {
+  force?: boolean;
+  // Requested translation language (e.g. "de" from `lang=de`)
+  targetLanguage?: string;
+  // User who triggered the run; their Slack locale is a language fallback
+  userId?: string;
+  // Images downloaded and OCR'd in parallel (defaults to OCR_CONCURRENCY or 4)
+  concurrency?: number;
+  // Post only translations (`translate-only`)
+  translationOnly?: boolean;
+}
+
 export async function processThread(
   channel: string,
   threadTs: string,
-  options: { force?: boolean } = {}
+  options: ProcessThreadOptions = {}
 ): Promise<ProcessThreadResult> {
   const { force = false } = options;
   logger.info("Starting thread processing", { channel, threadTs, force });
 
   const client = getSlackClient();
-  const token = process.env.SLACK_BOT_TOKEN!;
+  const deadline = Date.now() + INVOCATION_BUDGET_MS;
+
+  // A plain request picks up the thread's unfinished job instead of starting over.
+  // Forced and filtered runs get a job of their own and leave unfinished ones to finish.
+  const runningJobs = (await getThreadJobs(channel, threadTs)).filter(
+    (job) => job.status === "running"
+  );
+  if (!force && isPlainRequest(options) && runningJobs.length > 0) {
+    const activeJob = runningJobs.find((job) => isLeaseActive(job));
+    if (activeJob) {
+      logger.info("Job already in progress", { jobId: activeJob.id });
+      await postMessageToThread(
+        client,
+        channel,
+        threadTs,
+        "I'm still working on the images in this thread. My earlier message will update when I'm done."
+      );
+      return {
+        success: true,
+        message: "Job already in progress",
+        processedCount: 0,
+        skippedCount: 0,
+      };
+    }
+    return resumeJob(runningJobs[runningJobs.length - 1], deadline);
+  }
+
+  const targetLanguage = await resolveTargetLanguage(client, channel, {
+    requested: options.targetLanguage,
+    userId: options.userId,
+  });
+  logger.info("Resolved target language", { targetLanguage });
 
   // Post "Processing..." message immediately
   logger.info("Posting processing message");
@@ -71,6 +154,7 @@ export async function processThread(
     // Get thread messages
     logger.info("Fetching thread messages");
     const messages = await getThreadMessages(client, channel, threadTs);
+    const scanned = formatMessageCount(messages.length);
     logger.info("Retrieved messages", {
       messageCount: messages.length,
       messages: messages.map((m) => ({
@@ -81,8 +165,8 @@ export async function processThread(
       })),
     });
 
-    // Find all images in thread
-    const allImages = findImagesInThread(messages);
+    // Find all images in thread, narrowed by the requested filters
+    const allImages = filterImages(findImagesInThread(messages), options);
     logger.info("Found images in thread", {
       imageCount: allImages.length,
       images: allImages.map((img) => ({
@@ -100,7 +184,11 @@ export async function processThread(
         client,
         channel,
         statusMessageTs,
-        "No images found in this thread."
+        options.messageTs
+          ? "No images found in this message."
+          : options.fromUser || options.afterTs
+            ? `No images in this thread match those filters (scanned ${scanned}).`
+            : `No images found in this thread (scanned ${scanned}).`
       );
       return {
         success: true,
@@ -121,20 +209,43 @@ export async function processThread(
         processedIds: processedFileIds,
       });
 
-      // Filter out already processed images
-      unprocessedImages = filterUnprocessedFiles(allImages, processedFileIds);
+      // Filter out already processed images, and those an unfinished job will still post
+      const queuedFileIds = runningJobs.flatMap((job) =>
+        job.images.filter((image) => image.state !== "failed").map((image) => image.file.id)
+      );
+      unprocessedImages = filterUnprocessedFiles(
+        filterUnprocessedFiles(allImages, processedFileIds),
+        queuedFileIds
+      );
       logger.info("Filtered unprocessed images", {
         unprocessedCount: unprocessedImages.length,
         unprocessedIds: unprocessedImages.map((img) => img.id),
+        queuedIds: queuedFileIds,
       });
 
+      if (unprocessedImages.length === 0 && queuedFileIds.length > 0) {
+        logger.info("Remaining images are queued in an unfinished job");
+        await updateMessage(
+          client,
+          channel,
+          statusMessageTs,
+          "I'm already working on those images in an earlier run. Its message will update when it's done."
+        );
+        return {
+          success: true,
+          message: "Images already queued",
+          processedCount: 0,
+          skippedCount: allImages.length,
+        };
+      }
+
       if (unprocessedImages.length === 0) {
         logger.info("All images already processed");
         await updateMessage(
           client,
           channel,
           statusMessageTs,
-          "All images in this thread have already been processed.\n_Tip: Use `@ocr force` to reprocess them._"
+          `All images in this thread have already been processed (scanned ${scanned}).\n_Tip: Use \`@ocr force\` to reprocess them._`
         );
         return {
           success: true,
@@ -149,12 +260,21 @@ export async function processThread(
       });
     }
 
-    // Limit to MAX_IMAGES
-    const imagesToProcess = unprocessedImages.slice(0, MAX_IMAGES);
-    const limitReached = unprocessedImages.length > MAX_IMAGES;
-    logger.info("Images to process", {
-      count: imagesToProcess.length,
-      limitReached,
+    // Persist the request as a job so it can be resumed if this invocation runs out of time
+    const job = createJob({
+      channel,
+      threadTs,
+      statusMessageTs,
+      force,
+      targetLanguage,
+      translationOnly: options.translationOnly,
+      files: unprocessedImages,
+      skippedCount: processedFileIds.length,
+      messagesScanned: messages.length,
+    });
+    logger.info("Created job", {
+      jobId: job.id,
+      imageCount: job.images.length,
     });
 
     // Update status with count
@@ -162,179 +282,663 @@ export async function processThread(
       client,
       channel,
       statusMessageTs,
-      `Processing ${imagesToProcess.length} image${imagesToProcess.length > 1 ? "s" : ""}... please wait.`
+      `Processing ${unprocessedImages.length} image${unprocessedImages.length > 1 ? "s" : ""} from ${scanned}... please wait.`
     );
 
-    // Process each image
-    const results: OCRResult[] = [];
-    const processedIds: string[] = [];
-
-    for (let i = 0; i < imagesToProcess.length; i++) {
-      const image = imagesToProcess[i];
-      logger.info("Processing image", {
-        index: i + 1,
-        total: imagesToProcess.length,
-        id: image.id,
-        name: image.name,
-        mimetype: image.mimetype,
+    return await runJob(client, job, deadline, options.concurrency);
+  } catch (error) {
+    await reportFailure(client, channel, threadTs, statusMessageTs, error);
+    throw error;
+  }
+}
+
+// Requests without filters, language or output options, which an unfinished job
+// for the thread can answer
+function isPlainRequest(options: ProcessThreadOptions): boolean {
+  return (
+    !options.messageTs &&
+    !options.fileIds &&
+    !options.fromUser &&
+    !options.afterTs &&
+    !options.last &&
+    !options.targetLanguage &&
+    !options.translationOnly
+  );
+}
+
+// Continue an unfinished job (from a follow-up mention or the resume cron)
+export async function resumeJob(
+  job: OCRJob,
+  deadline: number = Date.now() + INVOCATION_BUDGET_MS
+): Promise<ProcessThreadResult> {
+  const { channel, threadTs, statusMessageTs } = job;
+  logger.info("Resuming job", {
+    jobId: job.id,
+    channel,
+    threadTs,
+    invocations: job.invocations,
+    ...countImagesByState(job),
+  });
+
+  const client = getSlackClient();
+  try {
+    return await runJob(client, job, deadline);
+  } catch (error) {
+    await reportFailure(client, channel, threadTs, statusMessageTs, error);
+    throw error;
+  }
+}
+
+// Process pending images until done or out of time, saving progress after each image
+async function runJob(
+  client: WebClient,
+  job: OCRJob,
+  deadline: number,
+  concurrencyOption?: number
+): Promise<ProcessThreadResult> {
+  const token = process.env.SLACK_BOT_TOKEN!;
+  const { channel, statusMessageTs } = job;
+  const total = job.images.length;
+
+  job.invocations++;
+  job.leaseExpiresAt = new Date(deadline + LEASE_MARGIN_MS).toISOString();
+  await saveJob(job);
+  await indexRunningJob(job);
+
+  const pendingImages = job.images
+    .filter((jobImage) => jobImage.state === "pending")
+    .slice(0, MAX_IMAGES);
+  logger.info("Images to process", {
+    jobId: job.id,
+    count: pendingImages.length,
+    total,
+  });
+
+  // Process images with bounded concurrency
+  const concurrency = Math.max(1, concurrencyOption ?? DEFAULT_CONCURRENCY);
+  // Identical images in one thread share a single OCR call
+  const ocrByHash = new Map<string, Promise<OCRResult>>();
+  let completedCount = total - countImagesByState(job).pending;
+  let jobSave: Promise<void> = Promise.resolve();
+
+  // Cancellation is checked cooperatively between images, at most every few seconds
+  let cancellation: JobCancellation | null = null;
+  let lastCancelCheck = 0;
+  const isCancelled = async () => {
+    if (!cancellation && Date.now() - lastCancelCheck >= CANCEL_CHECK_INTERVAL_MS) {
+      lastCancelCheck = Date.now();
+      cancellation = await getJobCancellation(job.id);
+    }
+    return !!cancellation;
+  };
+
+  // Progress shows completed images, throttled; a failed update never holds up the results
+  const progressClient = getFailFastSlackClient();
+  const progress = createProgressReporter(
+    (text) => updateMessage(progressClient, channel, statusMessageTs, text),
+    { initialCompleted: completedCount }
+  );
+  const reportProgress = () => {
+    completedCount++;
+    if (total > 1) {
+      progress.update(completedCount, total);
+    }
+  };
+
+  // Partial results are saved as they arrive so nothing is lost if the invocation dies
+  const persistProgress = () => {
+    jobSave = jobSave
+      .then(() => saveJob(job))
+      .catch((error) => {
+        logger.warn("Failed to save job progress", {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       });
+  };
 
-      // Update progress
-      if (imagesToProcess.length > 1) {
-        await updateMessage(
-          client,
-          channel,
-          statusMessageTs,
-          `Processing image ${i + 1} of ${imagesToProcess.length}... please wait.`
-        );
+  await mapWithConcurrency(pendingImages, concurrency, async (jobImage, i) => {
+    // Out of time or cancelled: leave the image pending
+    if (Date.now() >= deadline || (await isCancelled())) {
+      return;
+    }
+
+    const image = jobImage.file;
+    logger.info("Processing image", {
+      index: i + 1,
+      total: pendingImages.length,
+      id: image.id,
+      name: image.name,
+      mimetype: image.mimetype,
+    });
+
+    try {
+      const imageUrl = image.url_private_download || image.url_private;
+      if (!imageUrl) {
+        logger.error("No download URL for image", { imageId: image.id });
+        jobImage.state = "failed";
+        jobImage.error = "the image has no download URL";
+        return;
       }
 
-      try {
-        const imageUrl = image.url_private_download || image.url_private;
-        if (!imageUrl) {
-          logger.error("No download URL for image", { imageId: image.id });
-          continue;
-        }
-
-        // Download image
-        logger.info("Downloading image", { imageId: image.id, url: imageUrl });
-        const imageBuffer = await downloadImage(imageUrl, token);
-        logger.info("Image downloaded", {
-          imageId: image.id,
-          size: imageBuffer.length,
-        });
+      // Download image
+      logger.info("Downloading image", { imageId: image.id, url: imageUrl });
+      const imageBuffer = await downloadImage(imageUrl, token);
+      logger.info("Image downloaded", {
+        imageId: image.id,
+        size: imageBuffer.length,
+      });
 
-        // Perform OCR
+      const imageHash = hashImage(imageBuffer);
+      jobImage.imageHash = imageHash;
+
+      let ocr = ocrByHash.get(imageHash);
+      if (ocr) {
+        logger.info("Duplicate image in thread", { imageId: image.id });
+      } else {
+        // Perform OCR (served from the cache unless forced)
         logger.info("Running OCR", { imageId: image.id });
-        const result = await performOCR(
+        ocr = performCachedOCR(
           imageBuffer,
           image.name,
           image.id,
-          image.mimetype
+          image.mimetype,
+          { targetLanguage: job.targetLanguage, force: job.force, imageHash }
         );
-        logger.info("OCR completed", {
-          imageId: image.id,
-          language: result.language,
-          noTextFound: result.noTextFound,
-          textLength: result.text?.length || 0,
-          hasTranslation: !!result.englishTranslation,
-        });
-
-        results.push(result);
-        processedIds.push(image.id);
-      } catch (error) {
-        logger.error("Failed to process image", {
-          imageId: image.id,
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        });
-        // Continue with other images
+        ocrByHash.set(imageHash, ocr);
       }
-    }
 
-    // Mark files as processed
-    if (processedIds.length > 0) {
-      logger.info("Marking files as processed", { processedIds });
-      await markFilesAsProcessed(channel, threadTs, processedIds);
+      const result = await ocr;
+      logger.info("OCR completed", {
+        imageId: image.id,
+        language: result.language,
+        noTextFound: result.noTextFound,
+        textLength: result.text?.length || 0,
+        hasTranslation: !!result.translation,
+        error: result.error,
+        model: result.model,
+        attempts: result.attempts,
+        cached: !!result.cached,
+      });
+
+      jobImage.result = result;
+      jobImage.state = result.error ? "failed" : "done";
+    } catch (error) {
+      logger.error("Failed to process image", {
+        imageId: image.id,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      // Continue with other images
+      jobImage.state = "failed";
+      jobImage.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      reportProgress();
+      persistProgress();
     }
+  });
+  await progress.stop();
+  await jobSave;
 
-    // Format and update message with results
-    if (results.length > 0) {
-      let response = formatOCRResultsForSlack(results);
+  const counts = countImagesByState(job);
+  if (counts.pending > 0) {
+    cancellation = cancellation || (await getJobCancellation(job.id));
+  }
+  if (cancellation) {
+    return finalizeJob(client, job, cancellation);
+  }
 
-      if (limitReached) {
-        response += `\n\n_Note: Limited to ${MAX_IMAGES} images per request. ${unprocessedImages.length - MAX_IMAGES} more images remain unprocessed._`;
-      }
+  if (counts.pending > 0) {
+    // Hand the rest over to the next invocation (follow-up mention or resume cron)
+    job.leaseExpiresAt = undefined;
+    await saveJob(job);
+    logger.info("Job paused", { jobId: job.id, ...counts });
+    await updateMessage(
+      client,
+      channel,
+      statusMessageTs,
+      `Processed ${total - counts.pending} of ${total} images so far... continuing in the background.`
+    );
+    return {
+      success: true,
+      message: `Processed ${counts.done} images, ${counts.pending} pending`,
+      processedCount: counts.done,
+      skippedCount: job.skippedCount,
+    };
+  }
 
-      // Truncate to stay within Slack's message limit
-      const originalLength = response.length;
-      const truncationNotice =
-        "\n\n_Output was truncated because it exceeded Slack's message length limit._";
-      if (response.length > SLACK_MAX_TEXT_LENGTH) {
-        response =
-          response.slice(0, SLACK_MAX_TEXT_LENGTH - truncationNotice.length) +
-          truncationNotice;
-      }
+  return finalizeJob(client, job);
+}
 
-      // Attempt to post; if Slack still rejects, halve and retry
-      let posted = false;
-      let retries = 0;
-      while (!posted) {
-        try {
-          await updateMessage(client, channel, statusMessageTs, response);
-          posted = true;
-        } catch (err) {
-          const isTooLong =
-            err instanceof Error && err.message.includes("msg_too_long");
-          if (isTooLong && response.length > 500) {
-            retries++;
-            response =
-              response.slice(0, Math.floor(response.length / 2)) +
-              truncationNotice;
-          } else {
-            throw err;
-          }
-        }
-      }
+interface PostResultsParams {
+  channel: string;
+  threadTs: string;
+  // Message replaced by the first part of the output
+  statusMessageTs: string;
+  results: OCRResult[];
+  translationOnly?: boolean;
+  sourceLinks?: Record<string, string>;
+  // Footnotes shown after the results (cancellation, messages scanned)
+  notes: string[];
+}
 
-      // Log diagnostics to blob storage
-      await logDiagnostics({
-        stage: "update_success",
-        originalLength,
-        finalLength: response.length,
-        retries,
-        limit: SLACK_MAX_TEXT_LENGTH,
-        resultsCount: results.length,
-        channel,
-        threadTs,
-      });
-    } else {
-      logger.warn("No images were successfully processed");
-      await updateMessage(
+interface PostResultsOutcome {
+  length: number;
+  delivery: "messages" | "file";
+  messageCount: number;
+  retries: number;
+  blockCount: number;
+}
+
+// Render results into the thread: one message with blocks when it fits, chained
+// replies when it doesn't, or an attached file past MAX_RESULT_MESSAGES
+async function postResults(
+  client: WebClient,
+  params: PostResultsParams
+): Promise<PostResultsOutcome> {
+  const { channel, threadTs, statusMessageTs, results, notes } = params;
+
+  const sections = formatOCRResultSections(results, {
+    translationOnly: params.translationOnly,
+  });
+  if (notes.length > 0) {
+    sections[sections.length - 1] += `\n\n${notes.join("\n\n")}`;
+  }
+  const response = sections.join(RESULT_SEPARATOR);
+
+  // Split long output on image and paragraph boundaries into chained replies
+  let parts = splitMessage(sections, SLACK_MAX_TEXT_LENGTH);
+  let delivery: "messages" | "file" = "messages";
+
+  // Past the threshold, attach the full result as a file instead of flooding the thread
+  if (parts.length > MAX_RESULT_MESSAGES) {
+    try {
+      await uploadTextToThread(
         client,
         channel,
-        statusMessageTs,
-        "Failed to process any images. Please try again."
+        threadTs,
+        `ocr-results-${threadTs}.md`,
+        response
       );
+      const summary =
+        `Extracted text from ${results.length} images (${response.length.toLocaleString("en-US")} characters). ` +
+        "That's too long for Slack messages, so the full result is attached as a file.";
+      parts = [[summary, ...notes].join("\n\n")];
+      delivery = "file";
+    } catch (err) {
+      logger.warn("Failed to upload results file, posting as messages", {
+        error: err instanceof Error ? err.message : String(err),
+      });
     }
+  }
 
-    logger.info("Thread processing completed", {
-      processedCount: results.length,
-      skippedCount: processedFileIds.length,
+  // Block Kit rendering only when everything fits in one message; the text stays as the fallback
+  let blocks =
+    delivery === "messages" && parts.length === 1
+      ? formatOCRResultsAsBlocks(results, {
+          channel,
+          threadTs,
+          sourceLinks: params.sourceLinks,
+          translationOnly: params.translationOnly,
+          notes,
+        }) ?? undefined
+      : undefined;
+
+  // The first part replaces the status message; the rest follow as thread replies.
+  // If Slack still rejects a part as too long, split it in half and retry.
+  const queue = [...parts];
+  let messageCount = 0;
+  let retries = 0;
+  while (queue.length > 0) {
+    const part = queue.shift() as string;
+    try {
+      if (messageCount === 0) {
+        await updateMessage(client, channel, statusMessageTs, part, blocks);
+      } else {
+        await postMessageToThread(client, channel, threadTs, part);
+      }
+      messageCount++;
+    } catch (err) {
+      const isTooLong =
+        err instanceof Error && err.message.includes("msg_too_long");
+      const isInvalidBlocks =
+        err instanceof Error && err.message.includes("invalid_blocks");
+      if (messageCount === 0 && blocks && isInvalidBlocks) {
+        // Fall back to the plain mrkdwn rendering
+        logger.warn("Slack rejected result blocks", { error: err.message });
+        blocks = undefined;
+        queue.unshift(part);
+      } else if (isTooLong && part.length > 500) {
+        retries++;
+        blocks = undefined;
+        queue.unshift(...splitMessage([part], Math.floor(part.length / 2)));
+      } else {
+        throw err;
+      }
+    }
+  }
+
+  return {
+    length: response.length,
+    delivery,
+    messageCount,
+    retries,
+    blockCount: blocks?.length ?? 0,
+  };
+}
+
+// Post the combined output of every invocation and mark the job completed
+// (or cancelled, in which case pending images are left out)
+async function finalizeJob(
+  client: WebClient,
+  job: OCRJob,
+  cancellation: JobCancellation | null = null
+): Promise<ProcessThreadResult> {
+  const { channel, threadTs, statusMessageTs } = job;
+  const pendingCount = countImagesByState(job).pending;
+  const cancelNote = cancellation
+    ? `_Cancelled${cancellation.userId ? ` by <@${cancellation.userId}>` : ""}. ${pendingCount} image${pendingCount === 1 ? " was" : "s were"} not processed._`
+    : "";
+
+  // Collect results in thread order, collapsing identical images into the first one
+  const results: OCRResult[] = [];
+  const processedIds: string[] = [];
+  const resultsByHash = new Map<string, OCRResult>();
+
+  for (const jobImage of job.images) {
+    if (jobImage.state === "pending") {
+      continue;
+    }
+
+    const { file } = jobImage;
+    // Failed results are reported but left unprocessed so the next run retries them
+    if (jobImage.state === "done") {
+      processedIds.push(file.id);
+    }
+
+    const existing = jobImage.imageHash
+      ? resultsByHash.get(jobImage.imageHash)
+      : undefined;
+    if (existing) {
+      existing.duplicateFileNames = [
+        ...(existing.duplicateFileNames || []),
+        file.name,
+      ];
+      continue;
+    }
+
+    const result: OCRResult = jobImage.result
+      ? { ...jobImage.result, fileName: file.name, fileId: file.id }
+      : {
+          fileName: file.name,
+          fileId: file.id,
+          text: "",
+          language: "unknown",
+          noTextFound: false,
+          contentType: "other",
+          error: jobImage.error || "processing failed",
+        };
+    results.push(result);
+    if (jobImage.imageHash) {
+      resultsByHash.set(jobImage.imageHash, result);
+    }
+  }
+
+  // Mark files as processed, keeping their results for repost and export
+  if (processedIds.length > 0) {
+    logger.info("Marking files as processed", { processedIds });
+    await markFilesAsProcessed(
+      channel,
+      threadTs,
+      processedIds,
+      results.filter((result) => !result.error),
+      job.images.map(({ file }) => file)
+    );
+  }
+
+  // Format and update message with results
+  if (results.some((result) => !result.error)) {
+    // Show that the whole thread was read, not just the first page
+    const scanNote =
+      job.messagesScanned !== undefined
+        ? `_Scanned ${formatMessageCount(job.messagesScanned)} in this thread._`
+        : "";
+    const outcome = await postResults(client, {
+      channel,
+      threadTs,
+      statusMessageTs,
+      results,
+      translationOnly: job.translationOnly,
+      sourceLinks: await getSourceLinks(client, job),
+      notes: [cancelNote, scanNote].filter(Boolean),
     });
 
-    return {
-      success: true,
-      message: `Processed ${results.length} images`,
-      processedCount: results.length,
-      skippedCount: processedFileIds.length,
-    };
-  } catch (error) {
-    // Log diagnostics to blob storage
+    // Log diagnostics to storage
     await logDiagnostics({
-      stage: "processing_error",
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
+      stage: "update_success",
+      ...outcome,
+      limit: SLACK_MAX_TEXT_LENGTH,
+      resultsCount: results.length,
+      invocations: job.invocations,
       channel,
       threadTs,
     });
+  } else if (cancellation) {
+    logger.info("Job cancelled before any images were processed");
+    await updateMessage(client, channel, statusMessageTs, cancelNote);
+  } else {
+    logger.warn("No images were successfully processed");
+    await updateMessage(
+      client,
+      channel,
+      statusMessageTs,
+      "Failed to process any images. Please try again."
+    );
+  }
 
-    logger.error("Thread processing failed", {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+  job.status = cancellation ? "cancelled" : "completed";
+  job.leaseExpiresAt = undefined;
+  await saveJob(job);
+  await unindexRunningJob(job);
+
+  logger.info(cancellation ? "Thread processing cancelled" : "Thread processing completed", {
+    jobId: job.id,
+    processedCount: processedIds.length,
+    skippedCount: job.skippedCount,
+    invocations: job.invocations,
+  });
+
+  return {
+    success: true,
+    message: `Processed ${processedIds.length} images`,
+    processedCount: processedIds.length,
+    skippedCount: job.skippedCount,
+  };
+}
 
-    try {
-      await updateMessage(
-        client,
-        channel,
-        statusMessageTs,
-        `Error processing images: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`
-      );
-    } catch {
-      // Ignore error updating message
+// Stop every unfinished job for a thread; returns a message for the user. Paused
+// jobs are only marked here; finalizeCancelledJobs posts what they completed.
+export async function cancelJob(
+  channel: string,
+  threadTs: string,
+  userId?: string
+): Promise<string> {
+  const runningJobs = (await getThreadJobs(channel, threadTs)).filter(
+    (job) => job.status === "running"
+  );
+  if (runningJobs.length === 0) {
+    return "There is no OCR run in progress for this thread.";
+  }
+
+  let stopping = false;
+  for (const job of runningJobs) {
+    await requestJobCancellation(job.id, userId);
+    logger.info("Job cancellation requested", { jobId: job.id, userId });
+    // The running invocation stops between images and posts what it completed
+    stopping ||= isLeaseActive(job);
+  }
+
+  return stopping
+    ? "Cancelling... I'll stop after the images currently in progress and post what was completed."
+    : "Cancelled. The status message will show what was completed.";
+}
+
+// Finish the thread's cancelled jobs that nothing is working on. Updating Slack
+// can take a while, so callers run this after acknowledging the cancel.
+export async function finalizeCancelledJobs(
+  channel: string,
+  threadTs: string
+): Promise<void> {
+  const client = getSlackClient();
+  for (const job of await getThreadJobs(channel, threadTs)) {
+    if (job.status !== "running" || isLeaseActive(job)) {
+      continue;
+    }
+    const cancellation = await getJobCancellation(job.id);
+    if (cancellation) {
+      await finalizeJob(client, job, cancellation);
     }
+  }
+}
 
-    throw error;
+function describeJob(job: OCRJob): string {
+  const counts = countImagesByState(job);
+  const total = job.images.length;
+  const startedMinutes = Math.round(
+    (Date.now() - new Date(job.createdAt).getTime()) / 60_000
+  );
+  const summary = `${counts.done} of ${total} image${total === 1 ? "" : "s"} done, ${counts.failed} failed, ${counts.pending} pending`;
+
+  if (job.status === "running") {
+    const activity = isLeaseActive(job)
+      ? "in progress"
+      : "paused, waiting to be resumed";
+    return `OCR run ${activity}: ${summary}. Started ${startedMinutes} min ago.`;
+  }
+  return `Last OCR run ${job.status}: ${summary}. Started ${startedMinutes} min ago.`;
+}
+
+// Describe the thread's unfinished jobs, or its latest one when all are done
+export async function getJobStatus(
+  channel: string,
+  threadTs: string
+): Promise<string> {
+  const jobs = await getThreadJobs(channel, threadTs);
+  if (jobs.length === 0) {
+    return "I haven't processed this thread yet.";
+  }
+
+  const runningJobs = jobs.filter((job) => job.status === "running");
+  return runningJobs.length > 0
+    ? runningJobs.map(describeJob).join("\n")
+    : describeJob(jobs[jobs.length - 1]);
+}
+
+export type ExportFormat = "json" | "markdown";
+
+const NO_SAVED_RESULTS =
+  "I don't have any saved results for this thread yet. Mention me in the thread to process its images.";
+
+// Post a thread's saved results again without calling the model; returns a message for the user
+export async function repostResults(
+  channel: string,
+  threadTs: string
+): Promise<string> {
+  const results = await getThreadResults(channel, threadTs);
+  if (results.length === 0) {
+    return NO_SAVED_RESULTS;
+  }
+
+  const client = getSlackClient();
+  const statusMessageTs = await postMessageToThread(
+    client,
+    channel,
+    threadTs,
+    "Reposting saved results..."
+  );
+  await postResults(client, {
+    channel,
+    threadTs,
+    statusMessageTs,
+    results,
+    notes: ["_Reposted from saved results._"],
+  });
+  return `Reposted saved results for ${results.length} image${results.length === 1 ? "" : "s"}.`;
+}
+
+// Attach a thread's saved results to the thread as a file; returns a message for the user
+export async function exportResults(
+  channel: string,
+  threadTs: string,
+  format: ExportFormat
+): Promise<string> {
+  const results = await getThreadResults(channel, threadTs);
+  if (results.length === 0) {
+    return NO_SAVED_RESULTS;
+  }
+
+  const content =
+    format === "json"
+      ? JSON.stringify({ channel, threadTs, exportedAt: new Date().toISOString(), results }, null, 2)
+      : formatOCRResultsAsMarkdown(results);
+  const filename = `ocr-results-${threadTs}.${format === "json" ? "json" : "md"}`;
+  await uploadTextToThread(getSlackClient(), channel, threadTs, filename, content);
+  return `Exported ${results.length} result${results.length === 1 ? "" : "s"} as \`${filename}\`.`;
+}
+
+// Permalinks to the message each image was posted in (best-effort)
+async function getSourceLinks(
+  client: WebClient,
+  job: OCRJob
+): Promise<Record<string, string>> {
+  try {
+    const workspaceUrl = await getWorkspaceUrl(client);
+    const links: Record<string, string> = {};
+    for (const { file } of job.images) {
+      if (file.message_ts) {
+        links[file.id] = buildMessagePermalink(
+          workspaceUrl,
+          job.channel,
+          file.message_ts,
+          job.threadTs
+        );
+      }
+    }
+    return links;
+  } catch {
+    return {};
+  }
+}
+
+async function reportFailure(
+  client: WebClient,
+  channel: string,
+  threadTs: string,
+  statusMessageTs: string,
+  error: unknown
+): Promise<void> {
+  // Log diagnostics to storage
+  await logDiagnostics({
+    stage: "processing_error",
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    channel,
+    threadTs,
+  });
+
+  logger.error("Thread processing failed", {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+
+  try {
+    await updateMessage(
+      client,
+      channel,
+      statusMessageTs,
+      `Error processing images: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`
+    );
+  } catch {
+    // Ignore error updating message
   }
 }
@@ -0,0 +1,121 @@
+import { isSlackRateLimitError, getSlackRetryAfterMs } from "./slack.js";
+import { logger } from "./logger.js";
+
+// chat.update is Tier 3; merge progress into at most one update per interval
+const DEFAULT_INTERVAL_MS = Number(process.env.OCR_PROGRESS_INTERVAL_MS) || 3_000;
+const MAX_BACKOFF_MS = 60_000;
+const BAR_WIDTH = 20;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${Math.max(seconds, 1)}s`;
+  }
+  return `${Math.round(seconds / 60)} min`;
+}
+
+// e.g. "Processing images... `[████████░░░░░░░░░░░░]` 8 of 20 (40%) · about 45s left"
+export function formatProgress(completed: number, total: number, remainingMs?: number): string {
+  const ratio = total > 0 ? Math.min(completed / total, 1) : 0;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const bar = "█".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+  const eta = remainingMs !== undefined && completed < total
+    ? ` · about ${formatDuration(remainingMs)} left`
+    : "";
+  return `Processing images... \`[${bar}]\` ${completed} of ${total} (${Math.round(ratio * 100)}%)${eta}`;
+}
+
+export interface ProgressReporter {
+  // Record progress; the message is updated at most once per interval
+  update(completed: number, total: number): void;
+  // Stop updating and let an in-flight update settle so it can't overwrite the final message
+  stop(): Promise<void>;
+}
+
+export function createProgressReporter(
+  send: (text: string) => Promise<void>,
+  options: { intervalMs?: number; initialCompleted?: number } = {}
+): ProgressReporter {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const startedAt = Date.now();
+  const initialCompleted = options.initialCompleted ?? 0;
+
+  // Latest progress not yet shown
+  let latest: { completed: number; total: number } | null = null;
+  let nextAllowedAt = 0;
+  let backoffMs = intervalMs;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> | null = null;
+  let stopped = false;
+
+  // ETA from the pace of this run (resumed jobs start part-way through)
+  function estimateRemainingMs(completed: number, total: number): number | undefined {
+    const done = completed - initialCompleted;
+    if (done <= 0) {
+      return undefined;
+    }
+    return ((Date.now() - startedAt) / done) * (total - completed);
+  }
+
+  function schedule(): void {
+    if (stopped || timer || inFlight || !latest) {
+      return;
+    }
+
+    const wait = nextAllowedAt - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        schedule();
+      }, wait);
+      return;
+    }
+
+    const progress = latest;
+    latest = null;
+    nextAllowedAt = Date.now() + intervalMs;
+    const text = formatProgress(
+      progress.completed,
+      progress.total,
+      estimateRemainingMs(progress.completed, progress.total)
+    );
+
+    inFlight = send(text)
+      .then(() => {
+        backoffMs = intervalMs;
+      })
+      .catch((error) => {
+        if (isSlackRateLimitError(error)) {
+          // Back off (at least as long as Slack asks) and show the newest progress later
+          backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+          nextAllowedAt = Date.now() + Math.max(getSlackRetryAfterMs(error) ?? 0, backoffMs);
+          latest = latest ?? progress;
+          logger.warn("Progress update rate limited", { backoffMs: nextAllowedAt - Date.now() });
+        } else {
+          logger.warn("Failed to update progress", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+      .finally(() => {
+        inFlight = null;
+        schedule();
+      });
+  }
+
+  return {
+    update(completed, total) {
+      latest = { completed, total };
+      schedule();
+    },
+
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      await inFlight;
+    },
+  };
+}
@@ -0,0 +1,395 @@
+import {
+  generateText,
+  gateway,
+  Output,
+  NoObjectGeneratedError,
+  NoOutputGeneratedError,
+  APICallError,
+} from "ai";
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { DEFAULT_TARGET_LANGUAGE } from "../language.js";
+import { withRetry, parseRetryAfter, type RetryPolicy } from "../retry.js";
+import type { OCRProvider, OCRInput } from "../ocr-provider.js";
+import type { OCRResult } from "../ocr.js";
+
+// The OCR prompt, translating into the requested target language
+function buildOCRPrompt(targetLanguage: string): string {
+  return `You are an OCR assistant. Extract ALL text from this image completely and accurately.
+
+CRITICAL RULES:
+1. Extract EVERY word, sentence, and paragraph - DO NOT summarize or shorten
+2. Preserve the COMPLETE text exactly as it appears
+3. For documents, articles, or long text: include EVERYTHING from start to finish
+4. Never skip content, never truncate, never say "etc." or "..."
+5. If text continues beyond visible area, extract everything that IS visible
+
+Identify the content type:
+- "website": Screenshot of website, app, dashboard, or software UI
+- "document": Scanned document, PDF, article, receipt, or printed text
+- "photo": Photo of real-world text (signs, labels, handwriting)
+- "other": Any other image with text
+
+FORMAT RULES (using Slack mrkdwn syntax):
+- Use *bold* for headers and titles only
+- Use • for bullet lists
+- Use nested bullets with two-space indentation for subitems
+- Use \`\`\` code blocks \`\`\` ONLY for actual code, terminal output, or tables
+- Preserve paragraph breaks with blank lines
+- For documents/articles: output as flowing text with proper paragraphs
+
+STRUCTURE FOR DATA AND TABLES:
+- When information is tabular (metrics, key/value grids, columns), format it as a readable table
+- For Slack, use a monospaced table inside a code block to preserve alignment
+- Keep column headers short and rows aligned with spaces
+- If alignment is not possible, use a two-level bullet list (section header + key/value bullets)
+- Preserve every label and value from the original; do not omit entries
+
+FOR UI/SCREENSHOTS ONLY:
+- Skip navigation menus, breadcrumbs, repetitive UI chrome
+- Focus on main content area
+- Keep status messages, errors, and key data
+
+FOR DOCUMENTS/ARTICLES/LONG TEXT:
+- Extract the COMPLETE text word-for-word
+- Maintain paragraph structure
+- Include ALL sentences - this is critical
+- Do not summarize or paraphrase
+
+Respond in this exact JSON format:
+{
+  "contentType": "website" | "document" | "photo" | "other",
+  "language": "detected language name",
+  "isTargetLanguage": true if the text is already in ${targetLanguage}, otherwise false,
+  "extractedText": "the complete extracted text with Slack mrkdwn formatting",
+  "translation": "${targetLanguage} translation if not originally ${targetLanguage}, otherwise null"
+}
+
+If NO text is found:
+{
+  "contentType": "other",
+  "language": "none",
+  "isTargetLanguage": false,
+  "extractedText": null,
+  "translation": null
+}
+
+IMPORTANT: Return ONLY valid JSON, no markdown code blocks around the JSON.`;
+}
+
+const GeminiOCRResponseSchema = z.object({
+  contentType: z.enum(["website", "document", "photo", "other"]),
+  language: z.string(),
+  isTargetLanguage: z.boolean(),
+  extractedText: z.string().nullable(),
+  translation: z.string().nullable(),
+});
+
+type GeminiOCRResponse = z.infer<typeof GeminiOCRResponseSchema>;
+
+// Bump when the prompt or schema changes so cached results are not reused
+const PROMPT_VERSION = "1";
+
+// Total model calls per image before giving up on getting a valid response
+const MAX_RESPONSE_ATTEMPTS = Number(process.env.OCR_MAX_RESPONSE_ATTEMPTS) || 3;
+
+// Models are tried in order; later entries are only used when earlier ones are unavailable
+const DEFAULT_MODELS = ["google/gemini-2.5-flash", "google/gemini-2.0-flash"];
+
+function getModelChain(): string[] {
+  const configured = (process.env.OCR_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_MODELS;
+}
+
+function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: Number(process.env.OCR_RETRY_ATTEMPTS) || 3,
+    baseDelayMs: Number(process.env.OCR_RETRY_BASE_DELAY_MS) || 1000,
+    maxDelayMs: Number(process.env.OCR_RETRY_MAX_DELAY_MS) || 20000,
+  };
+}
+
+// Gateway errors wrap the underlying API call error, so walk the cause chain
+function findInErrorChain<T>(
+  error: unknown,
+  pick: (candidate: Record<string, unknown>) => T | undefined
+): T | undefined {
+  let current = error;
+  for (let depth = 0; current && typeof current === "object" && depth < 5; depth++) {
+    const candidate = current as Record<string, unknown>;
+    const value = pick(candidate);
+    if (value !== undefined) {
+      return value;
+    }
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  return findInErrorChain(error, (candidate) =>
+    typeof candidate.statusCode === "number" ? candidate.statusCode : undefined
+  );
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+  return findInErrorChain(error, (candidate) => {
+    const headers = candidate.responseHeaders as Record<string, string> | undefined;
+    return parseRetryAfter(headers?.["retry-after"]);
+  });
+}
+
+// Rate limits, timeouts and server errors are worth retrying
+function isTransientError(error: unknown): boolean {
+  const statusCode = getStatusCode(error);
+  if (statusCode !== undefined) {
+    return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+  }
+  return APICallError.isInstance(error) && error.isRetryable;
+}
+
+async function requestOCR(
+  modelId: string,
+  imageBuffer: Buffer,
+  targetLanguage: string
+): Promise<GeminiOCRResponse> {
+  // Use Vercel AI Gateway; OIDC authentication is automatic on Vercel deployments
+  const { output } = await generateText({
+    model: gateway(modelId),
+    maxOutputTokens: 16000, // Allow long responses for documents with lots of text
+    maxRetries: 0, // Retries and failover are handled by recognize()
+    output: Output.object({ schema: GeminiOCRResponseSchema }),
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: buildOCRPrompt(targetLanguage),
+          },
+          {
+            type: "image",
+            image: imageBuffer,
+          },
+        ],
+      },
+    ],
+  });
+  return output;
+}
+
+// Try to salvage raw model text that failed structured-output parsing
+// (markdown fences, leading prose, etc.) before spending another model call
+function repairResponse(text: string | undefined): GeminiOCRResponse | null {
+  if (!text) {
+    return null;
+  }
+
+  const cleanedText = text
+    .replace(/^```json\n?/i, "")
+    .replace(/\n?```$/i, "")
+    .trim();
+  const start = cleanedText.indexOf("{");
+  const end = cleanedText.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    const parsed = GeminiOCRResponseSchema.safeParse(
+      JSON.parse(cleanedText.slice(start, end + 1))
+    );
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Ask one model for a schema-valid response, repairing or re-asking on invalid output.
+// Returns null if every attempt was invalid; gateway errors propagate to the caller.
+async function requestValidResponse(
+  modelId: string,
+  imageBuffer: Buffer,
+  targetLanguage: string,
+  fileId: string,
+  onAttempt: () => void
+): Promise<GeminiOCRResponse | null> {
+  for (let attempt = 1; attempt <= MAX_RESPONSE_ATTEMPTS; attempt++) {
+    onAttempt();
+    try {
+      return await requestOCR(modelId, imageBuffer, targetLanguage);
+    } catch (error) {
+      // Output is only parsed when the model stops on its own; a response cut off
+      // at maxOutputTokens has no output at all (and truncated JSON can't be repaired)
+      if (NoOutputGeneratedError.isInstance(error)) {
+        logger.warn("Incomplete OCR response from model", {
+          fileId,
+          model: modelId,
+          attempt,
+          maxAttempts: MAX_RESPONSE_ATTEMPTS,
+          error: error.message,
+        });
+        continue;
+      }
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        throw error;
+      }
+      const repaired = repairResponse(error.text);
+      if (repaired) {
+        return repaired;
+      }
+      logger.warn("Invalid OCR response from model", {
+        fileId,
+        model: modelId,
+        attempt,
+        maxAttempts: MAX_RESPONSE_ATTEMPTS,
+        error: error.message,
+      });
+    }
+  }
+  return null;
+}
+
+// Gemini via the Vercel AI Gateway, with retry/backoff and model failover
+export function createGeminiProvider(): OCRProvider {
+  return {
+    name: "gemini",
+    version: `gemini:${PROMPT_VERSION}:${getModelChain().join(",")}`,
+
+    async recognize({
+      imageBuffer,
+      fileName,
+      fileId,
+      targetLanguage = DEFAULT_TARGET_LANGUAGE,
+    }: OCRInput): Promise<OCRResult> {
+      const models = getModelChain();
+      const retryPolicy = getRetryPolicy();
+      let attempts = 0;
+      let response: GeminiOCRResponse | null = null;
+      let modelIndex = 0;
+
+      for (; modelIndex < models.length; modelIndex++) {
+        const modelId = models[modelIndex];
+        try {
+          response = await withRetry(
+            () =>
+              requestValidResponse(
+                modelId,
+                imageBuffer,
+                targetLanguage,
+                fileId,
+                () => attempts++
+              ),
+            retryPolicy,
+            {
+              isRetryable: isTransientError,
+              getRetryAfterMs,
+              onRetry: (error, attempt, delayMs) =>
+                logger.warn("OCR request failed, retrying", {
+                  fileId,
+                  model: modelId,
+                  attempt,
+                  delayMs,
+                  statusCode: getStatusCode(error),
+                  error: error instanceof Error ? error.message : String(error),
+                }),
+            }
+          );
+          break;
+        } catch (error) {
+          // Fail over on outages and unknown models; anything else is a real error
+          const canFailOver = isTransientError(error) || getStatusCode(error) === 404;
+          if (!canFailOver) {
+            throw error;
+          }
+          logger.warn("OCR model unavailable", {
+            fileId,
+            model: modelId,
+            statusCode: getStatusCode(error),
+            nextModel: models[modelIndex + 1],
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const model = models[Math.min(modelIndex, models.length - 1)];
+      const usage = {
+        targetLanguage,
+        model,
+        attempts,
+        usedFallbackModel: modelIndex > 0 && modelIndex < models.length,
+      };
+
+      // Every model in the chain was rate limited or down
+      if (modelIndex >= models.length) {
+        return {
+          fileName,
+          fileId,
+          text: "",
+          language: "unknown",
+          noTextFound: false,
+          contentType: "other",
+          error: "the OCR service is unavailable (rate limited or down)",
+          ...usage,
+        };
+      }
+
+      // Report the failure instead of pretending the image was empty
+      if (!response) {
+        return {
+          fileName,
+          fileId,
+          text: "",
+          language: "unknown",
+          noTextFound: false,
+          contentType: "other",
+          error: `the model returned an invalid response ${MAX_RESPONSE_ATTEMPTS} times`,
+          ...usage,
+        };
+      }
+
+      // Handle no text found
+      if (!response.extractedText) {
+        return {
+          fileName,
+          fileId,
+          text: "",
+          language: "none",
+          noTextFound: true,
+          contentType: "other",
+          ...usage,
+        };
+      }
+
+      const contentType = response.contentType || "other";
+
+      // Return result based on whether translation was needed
+      if (response.isTargetLanguage) {
+        return {
+          fileName,
+          fileId,
+          text: response.extractedText,
+          language: response.language,
+          noTextFound: false,
+          contentType,
+          ...usage,
+        };
+      } else {
+        return {
+          fileName,
+          fileId,
+          text: response.translation || response.extractedText,
+          language: response.language,
+          translation: response.translation || undefined,
+          originalText: response.extractedText,
+          noTextFound: false,
+          contentType,
+          ...usage,
+        };
+      }
+    },
+  };
+}
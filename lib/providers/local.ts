@@ -0,0 +1,73 @@
+import * as os from "os";
+import type { Worker } from "tesseract.js";
+import type { OCRProvider, OCRInput } from "../ocr-provider.js";
+import type { OCRResult } from "../ocr.js";
+
+// Tesseract language codes to the language names the other providers report
+const LANGUAGE_NAMES: Record<string, string> = {
+  eng: "English",
+  deu: "German",
+  fra: "French",
+  spa: "Spanish",
+  por: "Portuguese",
+  ita: "Italian",
+  nld: "Dutch",
+};
+
+// Local engine: Tesseract compiled to WASM, no model API calls. Language data
+// (`<lang>.traineddata`) is downloaded from the jsDelivr CDN on first use unless
+// OCR_LOCAL_LANG_PATH points at bundled data, and cached in the temp directory
+// because the deployment directory is read-only on Vercel.
+// It does not translate, so results are reported in the first configured language.
+export function createLocalProvider(
+  languages: string = process.env.OCR_LOCAL_LANGUAGES || "eng"
+): OCRProvider {
+  const langs = languages.split(/[+,\s]+/).filter(Boolean);
+  const langPath = process.env.OCR_LOCAL_LANG_PATH || undefined;
+  const cachePath = process.env.OCR_LOCAL_CACHE_PATH || os.tmpdir();
+  let workerPromise: Promise<Worker> | null = null;
+
+  function getWorker(): Promise<Worker> {
+    if (!workerPromise) {
+      // Imported lazily so other providers don't pay for loading the WASM engine
+      workerPromise = import("tesseract.js").then(({ createWorker }) =>
+        createWorker(langs, undefined, { langPath, cachePath })
+      );
+      workerPromise.catch(() => {
+        workerPromise = null;
+      });
+    }
+    return workerPromise;
+  }
+
+  return {
+    name: "local",
+    version: `tesseract:${langs.join("+")}`,
+
+    async recognize({ imageBuffer, fileName, fileId }: OCRInput): Promise<OCRResult> {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(imageBuffer);
+      const text = data.text.trim();
+
+      if (!text) {
+        return {
+          fileName,
+          fileId,
+          text: "",
+          language: "none",
+          noTextFound: true,
+          contentType: "other",
+        };
+      }
+
+      return {
+        fileName,
+        fileId,
+        text,
+        language: LANGUAGE_NAMES[langs[0]] || langs[0],
+        noTextFound: false,
+        contentType: "other",
+      };
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { OCRProvider, OCRInput } from "../ocr-provider.js";
+import type { OCRResult } from "../ocr.js";
+import { DEFAULT_TARGET_LANGUAGE } from "../language.js";
+
+// Same shape as test/fixtures/metadata.json, with optional extra fields
+interface MockFixture {
+  name: string;
+  lang: string;
+  originalText: string;
+  expectedText?: string;
+  translation?: string;
+  contentType?: OCRResult["contentType"];
+}
+
+const DEFAULT_FIXTURES_PATH = "test/fixtures/metadata.json";
+
+// Deterministic offline provider: results are looked up by file name in a fixtures file
+export function createMockProvider(
+  fixturesPath: string = process.env.OCR_MOCK_FIXTURES || DEFAULT_FIXTURES_PATH
+): OCRProvider {
+  let fixtures: Map<string, MockFixture> | null = null;
+
+  function loadFixtures(): Map<string, MockFixture> {
+    if (!fixtures) {
+      const resolved = path.resolve(process.cwd(), fixturesPath);
+      const entries = JSON.parse(fs.readFileSync(resolved, "utf8")) as MockFixture[];
+      fixtures = new Map(entries.map((entry) => [entry.name, entry]));
+    }
+    return fixtures;
+  }
+
+  return {
+    name: "mock",
+    version: `mock:${fixturesPath}`,
+
+    async recognize({
+      fileName,
+      fileId,
+      targetLanguage = DEFAULT_TARGET_LANGUAGE,
+    }: OCRInput): Promise<OCRResult> {
+      const fixture = loadFixtures().get(fileName);
+
+      if (!fixture || !fixture.originalText) {
+        return {
+          fileName,
+          fileId,
+          text: "",
+          language: "none",
+          noTextFound: true,
+          contentType: "other",
+        };
+      }
+
+      const contentType = fixture.contentType || "other";
+
+      if (fixture.lang.toLowerCase() === targetLanguage.toLowerCase()) {
+        return {
+          fileName,
+          fileId,
+          text: fixture.originalText,
+          language: fixture.lang,
+          targetLanguage,
+          noTextFound: false,
+          contentType,
+        };
+      }
+
+      return {
+        fileName,
+        fileId,
+        text: fixture.translation || fixture.originalText,
+        language: fixture.lang,
+        targetLanguage,
+        translation: fixture.translation,
+        originalText: fixture.originalText,
+        noTextFound: false,
+        contentType,
+      };
+    },
+  };
+}
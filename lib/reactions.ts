@@ -0,0 +1,41 @@
+import { parseCommandText, type ParsedCommand } from "./command-parser.js";
+import { logger } from "./logger.js";
+
+// Emoji that trigger OCR on the message they're added to, each with the same
+// options a mention accepts. Format: "emoji:options,emoji:options", e.g.
+// OCR_REACTIONS="mag:,mag_right:force,speech_balloon:translate-only,flag-de:lang=de"
+const DEFAULT_REACTIONS = "mag:,mag_right:force";
+
+export function getReactionTriggers(
+  config: string = process.env.OCR_REACTIONS || DEFAULT_REACTIONS
+): Map<string, ParsedCommand> {
+  const triggers = new Map<string, ParsedCommand>();
+
+  for (const rawEntry of config.split(",")) {
+    // Allow the emoji to be written Slack-style, e.g. ":eyes:"
+    const entry = rawEntry.trim().replace(/^:/, "");
+    const separator = entry.indexOf(":");
+    const emoji = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    const options = separator === -1 ? "" : entry.slice(separator + 1);
+    if (!emoji) {
+      continue;
+    }
+
+    const parsed = parseCommandText(options);
+    // Only run options make sense on a reaction
+    if (parsed.command !== "run" || parsed.errors.length > 0 || parsed.unknownWords.length > 0) {
+      logger.warn("Ignoring invalid OCR_REACTIONS entry", { entry });
+      continue;
+    }
+    triggers.set(emoji, parsed);
+  }
+
+  return triggers;
+}
+
+// Options for a reaction, or null if the emoji isn't a trigger
+export function getReactionTrigger(reaction: string): ParsedCommand | null {
+  // Skin tone variants (e.g. "point_up::skin-tone-2") count as the base emoji
+  const emoji = reaction.split("::")[0];
+  return getReactionTriggers().get(emoji) ?? null;
+}
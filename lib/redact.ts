@@ -0,0 +1,66 @@
+const REDACTED = "[REDACTED]";
+
+// String values under these keys are secrets whatever they look like
+// (e.g. "token", "x-slack-signature", "authorization", "client_secret")
+const SENSITIVE_KEY = /token|secret|signature|password|authorization|cookie/i;
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  // Slack tokens: bot, user, app-level, refresh, configuration
+  [/\bxox[a-z]-[A-Za-z0-9-]+/g, REDACTED],
+  [/\bxapp-[A-Za-z0-9-]+/g, REDACTED],
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, `Bearer ${REDACTED}`],
+  // Request signatures, e.g. "v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503"
+  [/\bv0=[0-9a-f]{16,}/g, REDACTED],
+  // Private file URLs (url_private, url_private_download, thumbnails) grant access with a token
+  [/https:\/\/files(?:-[a-z]+)?\.slack\.com\/[^\s"'<>)]*/g, `https://files.slack.com/${REDACTED}`],
+];
+
+function redactString(value: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    value
+  );
+}
+
+// `ancestors` holds the objects on the path from the root, so a shared object
+// that is referenced twice is copied twice; only a real cycle is cut
+function redactValue(value: unknown, ancestors: WeakSet<object>): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack && redactString(value.stack),
+    };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+
+  ancestors.add(value);
+  const redacted = Array.isArray(value)
+    ? value.map((item) => redactValue(item, ancestors))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          typeof item === "string" && SENSITIVE_KEY.test(key)
+            ? REDACTED
+            : redactValue(item, ancestors),
+        ])
+      );
+  ancestors.delete(value);
+  return redacted;
+}
+
+// Copy of a log payload with tokens, signatures and private file URLs removed
+export function redact<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
@@ -0,0 +1,159 @@
+import {
+  getStorage,
+  readJson,
+  writeJson,
+  type StorageEntry,
+  type LegacyMigrationReport,
+} from "./storage.js";
+import { logger } from "./logger.js";
+
+// Days to keep objects under each key prefix; 0 keeps them forever. Override or
+// extend with OCR_RETENTION_DAYS, e.g. "debug=3,logs=60,jobs=30"
+const DEFAULT_RETENTION_DAYS: Record<string, number> = {
+  // Cancellation markers are only read while their job is running
+  cancellations: 30,
+  debug: 7,
+  diagnostics: 14,
+  // Event dedup markers are only needed while Slack may still retry
+  events: 2,
+  // Job records back "Show original" and status for as long as results are kept
+  jobs: 90,
+  logs: 30,
+  // Matches the default OCR_CACHE_TTL_HOURS; raise both together
+  "ocr-cache": 7,
+  processed: 90,
+};
+
+// Written once every legacy object has been migrated, so later runs don't list the whole store
+const MIGRATION_MARKER_KEY = "migrations/legacy-public-objects.json";
+
+const DELETE_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  // Key prefix including the trailing slash, e.g. "logs/"
+  prefix: string;
+  days: number;
+}
+
+export function getRetentionPolicies(
+  config: string = process.env.OCR_RETENTION_DAYS || ""
+): RetentionPolicy[] {
+  const days = new Map(Object.entries(DEFAULT_RETENTION_DAYS));
+
+  for (const rawEntry of config.split(",")) {
+    const entry = rawEntry.trim();
+    if (!entry) {
+      continue;
+    }
+    const match = entry.match(/^([\w-]+)\/?=(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      logger.warn("Ignoring invalid OCR_RETENTION_DAYS entry", { entry });
+      continue;
+    }
+    days.set(match[1], Number(match[2]));
+  }
+
+  return [...days.entries()]
+    .filter(([, value]) => value > 0)
+    .map(([name, value]) => ({ prefix: `${name}/`, days: value }));
+}
+
+export interface CleanupReport {
+  prefix: string;
+  retentionDays: number;
+  // Objects under the prefix when cleanup looked
+  scanned: number;
+  // Objects older than the retention period
+  expired: number;
+  deleted: number;
+}
+
+export interface CleanupResult {
+  reports: CleanupReport[];
+  // Objects an earlier version stored publicly, moved to private storage (or
+  // deleted if already expired); only for backends that have them
+  migration?: LegacyMigrationReport;
+  // False when the deadline cut the run short
+  complete: boolean;
+}
+
+// Delete objects older than their prefix's retention period. Stops between
+// batches once the deadline passes; the next run picks up the rest.
+export async function cleanupExpiredObjects(
+  options: { now?: number; deadline?: number; dryRun?: boolean } = {}
+): Promise<CleanupResult> {
+  const now = options.now ?? Date.now();
+  const storage = getStorage();
+  const policies = getRetentionPolicies();
+  const reports: CleanupReport[] = [];
+  let complete = true;
+
+  const isExpired = (entry: StorageEntry) => {
+    const policy = policies.find(({ prefix }) => entry.key.startsWith(prefix));
+    return !!policy && entry.metadata.uploadedAt.getTime() < now - policy.days * DAY_MS;
+  };
+
+  let migration: LegacyMigrationReport | undefined;
+  if (
+    storage.migrateLegacyObjects &&
+    !options.dryRun &&
+    !(await readJson(MIGRATION_MARKER_KEY))
+  ) {
+    migration = await storage.migrateLegacyObjects((entry) => !isExpired(entry), {
+      deadline: options.deadline,
+    });
+    complete = migration.complete;
+    if (migration.migrated > 0 || migration.deleted > 0) {
+      logger.info("Migrated legacy public objects", { ...migration });
+    }
+    if (migration.complete) {
+      await writeJson(MIGRATION_MARKER_KEY, {
+        completedAt: new Date(now).toISOString(),
+        ...migration,
+      });
+    }
+  }
+
+  for (const policy of policies) {
+    if (options.deadline && Date.now() >= options.deadline) {
+      complete = false;
+      break;
+    }
+
+    const entries = await storage.list(policy.prefix);
+    const expired = entries.filter(isExpired).map((entry) => entry.key);
+    const report: CleanupReport = {
+      prefix: policy.prefix,
+      retentionDays: policy.days,
+      scanned: entries.length,
+      expired: expired.length,
+      deleted: 0,
+    };
+    reports.push(report);
+
+    if (options.dryRun) {
+      continue;
+    }
+
+    for (let start = 0; start < expired.length; start += DELETE_BATCH_SIZE) {
+      if (options.deadline && Date.now() >= options.deadline) {
+        complete = false;
+        break;
+      }
+      const batch = expired.slice(start, start + DELETE_BATCH_SIZE);
+      await storage.delete(batch);
+      report.deleted += batch.length;
+    }
+
+    if (report.deleted > 0) {
+      logger.info("Deleted expired objects", {
+        prefix: policy.prefix,
+        deleted: report.deleted,
+        retentionDays: policy.days,
+      });
+    }
+  }
+
+  return { reports, complete, migration };
+}
@@ -0,0 +1,71 @@
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryOptions {
+  // Decide whether a failed attempt is worth repeating
+  isRetryable: (error: unknown) => boolean;
+  // Server-requested delay (e.g. Retry-After) takes precedence over backoff
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with full jitter: random delay in [0, min(max, base * 2^(attempt-1))]
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+// Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+// Run fn until it succeeds, a non-retryable error is thrown, or attempts run out
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      const delayMs =
+        retryAfterMs !== undefined
+          ? Math.min(retryAfterMs, policy.maxDelayMs)
+          : backoffDelay(attempt, policy);
+
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
@@ -1,13 +1,30 @@
-import { WebClient } from "@slack/web-api";
+import {
+  WebClient,
+  ErrorCode,
+  type KnownBlock,
+  type WebClientOptions,
+} from "@slack/web-api";
 import crypto from "crypto";
+import { withRetry, sleep, type RetryPolicy } from "./retry.js";
+import { logger } from "./logger.js";
 
 // Initialize Slack client
-export function getSlackClient(): WebClient {
+export function getSlackClient(options?: WebClientOptions): WebClient {
   const token = process.env.SLACK_BOT_TOKEN;
   if (!token) {
     throw new Error("SLACK_BOT_TOKEN environment variable is required");
   }
-  return new WebClient(token);
+  return new WebClient(token, options);
+}
+
+// Client for best-effort updates (progress): rate limits and failures surface
+// immediately instead of being waited out, so the caller can back off
+export function getFailFastSlackClient(): WebClient {
+  return getSlackClient({
+    rejectRateLimitedCalls: true,
+    retryConfig: { retries: 0 },
+    timeout: 10_000,
+  });
 }
 
 // Verify Slack request signature
@@ -50,30 +67,114 @@ export interface SlackFile {
   mimetype: string;
   url_private_download?: string;
   url_private?: string;
+  // Uploader (set from the message by findImagesInThread if Slack omits it)
+  user?: string;
+  // Set by findImagesInThread: ts of the message the file was posted in
+  message_ts?: string;
 }
 
 // Slack message type
 export interface SlackMessage {
   ts: string;
+  thread_ts?: string;
   user?: string;
   bot_id?: string;
   text?: string;
   files?: SlackFile[];
 }
 
-// Get thread messages
+// conversations.replies is Tier 3 (about 50 requests per minute), so follow-up
+// pages of long threads are paced instead of fired back to back
+const REPLIES_PAGE_SIZE = 200;
+const REPLIES_PAGE_INTERVAL_MS = 1_200;
+const SLACK_RATE_LIMIT_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+};
+
+// A Slack rate limit, either thrown by a client created with rejectRateLimitedCalls
+// or reported by the API as a "ratelimited" error
+export function isSlackRateLimitError(error: unknown): boolean {
+  const coded = error as { code?: string; data?: { error?: string } } | undefined;
+  return (
+    coded?.code === ErrorCode.RateLimitedError || coded?.data?.error === "ratelimited"
+  );
+}
+
+export function getSlackRetryAfterMs(error: unknown): number | undefined {
+  const retryAfter = (error as { retryAfter?: number } | undefined)?.retryAfter;
+  return typeof retryAfter === "number" ? retryAfter * 1000 : undefined;
+}
+
+// Retry a Slack call on rate limits, waiting as long as Slack asks
+export function withSlackRateLimitRetry<T>(fn: () => Promise<T>): Promise<T> {
+  return withRetry(fn, SLACK_RATE_LIMIT_POLICY, {
+    isRetryable: isSlackRateLimitError,
+    getRetryAfterMs: getSlackRetryAfterMs,
+    onRetry: (_error, attempt, delayMs) =>
+      logger.warn("Slack rate limited, retrying", { attempt, delayMs }),
+  });
+}
+
+// Get every message in a thread, following next_cursor through all pages
 export async function getThreadMessages(
   client: WebClient,
   channel: string,
   threadTs: string
 ): Promise<SlackMessage[]> {
+  const messages: SlackMessage[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  let lastRequestAt = 0;
+
+  do {
+    const wait = lastRequestAt + REPLIES_PAGE_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    lastRequestAt = Date.now();
+
+    const result = await withSlackRateLimitRetry(() =>
+      client.conversations.replies({
+        channel,
+        ts: threadTs,
+        inclusive: true,
+        limit: REPLIES_PAGE_SIZE,
+        cursor,
+      })
+    );
+
+    // Every page repeats the thread's parent message
+    for (const message of (result.messages as SlackMessage[]) || []) {
+      if (!seen.has(message.ts)) {
+        seen.add(message.ts);
+        messages.push(message);
+      }
+    }
+    cursor = result.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  return messages;
+}
+
+// Get a single message, top-level or a thread reply
+export async function getMessage(
+  client: WebClient,
+  channel: string,
+  ts: string
+): Promise<SlackMessage | null> {
+  // conversations.replies finds a reply's thread, unlike conversations.history. It
+  // always returns the thread's parent first, so bound the range to the message itself.
   const result = await client.conversations.replies({
     channel,
-    ts: threadTs,
+    ts,
+    oldest: ts,
+    latest: ts,
     inclusive: true,
   });
-
-  return (result.messages as SlackMessage[]) || [];
+  const messages = (result.messages as SlackMessage[]) || [];
+  return messages.find((message) => message.ts === ts) ?? null;
 }
 
 // Find images in thread messages
@@ -84,7 +185,7 @@ export function findImagesInThread(messages: SlackMessage[]): SlackFile[] {
     if (message.files) {
       for (const file of message.files) {
         if (file.mimetype?.startsWith("image/")) {
-          images.push(file);
+          images.push({ ...file, user: file.user ?? message.user, message_ts: message.ts });
         }
       }
     }
@@ -93,6 +194,42 @@ export function findImagesInThread(messages: SlackMessage[]): SlackFile[] {
   return images;
 }
 
+// Compare Slack timestamps ("seconds.micros") without floating point rounding
+export function compareTs(a: string, b: string): number {
+  const [aSeconds, aMicros = "0"] = a.split(".");
+  const [bSeconds, bMicros = "0"] = b.split(".");
+  return (
+    Number(aSeconds) - Number(bSeconds) ||
+    Number(aMicros.padEnd(6, "0")) - Number(bMicros.padEnd(6, "0"))
+  );
+}
+
+// Ways to narrow the images found in a thread
+export interface ImageFilter {
+  // Only images posted in this message
+  messageTs?: string;
+  // Only these files
+  fileIds?: string[];
+  // Only images uploaded by this user
+  fromUser?: string;
+  // Only images posted after this message
+  afterTs?: string;
+  // Only the most recent N images (applied after the other filters)
+  last?: number;
+}
+
+export function filterImages(images: SlackFile[], filter: ImageFilter): SlackFile[] {
+  const { messageTs, fileIds, fromUser, afterTs, last } = filter;
+  const matching = images.filter(
+    (img) =>
+      (!messageTs || img.message_ts === messageTs) &&
+      (!fileIds || fileIds.includes(img.id)) &&
+      (!fromUser || img.user === fromUser) &&
+      (!afterTs || (!!img.message_ts && compareTs(img.message_ts, afterTs) > 0))
+  );
+  return last ? matching.slice(-last) : matching;
+}
+
 // Download image from Slack
 export async function downloadImage(
   fileUrl: string,
@@ -128,22 +265,154 @@ export async function postMessageToThread(
   return result.ts as string;
 }
 
-// Update an existing message
+// Post a message only the given user can see, in the thread
+export async function postEphemeralToThread(
+  client: WebClient,
+  channel: string,
+  threadTs: string,
+  user: string,
+  text: string
+): Promise<void> {
+  await client.chat.postEphemeral({
+    channel,
+    thread_ts: threadTs,
+    user,
+    text,
+  });
+}
+
+// Update an existing message; with blocks, text is the notification fallback
 export async function updateMessage(
   client: WebClient,
   channel: string,
   messageTs: string,
-  text: string
+  text: string,
+  blocks?: KnownBlock[]
 ): Promise<void> {
   await client.chat.update({
     channel,
     ts: messageTs,
     text,
+    ...(blocks ? { blocks } : {}),
   });
 }
 
+// Upload text as a file into a thread (requires the files:write scope)
+export async function uploadTextToThread(
+  client: WebClient,
+  channel: string,
+  threadTs: string,
+  filename: string,
+  content: string,
+  initialComment?: string
+): Promise<void> {
+  await client.files.uploadV2({
+    channel_id: channel,
+    thread_ts: threadTs,
+    filename,
+    content,
+    initial_comment: initialComment,
+  });
+}
+
+// Get the workspace URL (e.g. https://acme.slack.com/) for building permalinks
+export async function getWorkspaceUrl(client: WebClient): Promise<string> {
+  const result = await client.auth.test();
+  return result.url as string;
+}
+
+// Build a permalink to a message in a thread without an API call per message
+export function buildMessagePermalink(
+  workspaceUrl: string,
+  channel: string,
+  messageTs: string,
+  threadTs?: string
+): string {
+  const base = `${workspaceUrl.replace(/\/$/, "")}/archives/${channel}/p${messageTs.replace(".", "")}`;
+  return threadTs && threadTs !== messageTs
+    ? `${base}?thread_ts=${threadTs}&cid=${channel}`
+    : base;
+}
+
+// Find where a file was shared in a channel (file_shared events only carry the file ID)
+export async function getFileShare(
+  client: WebClient,
+  fileId: string,
+  channel: string
+): Promise<{ file: SlackFile; messageTs: string; threadTs?: string } | null> {
+  const result = await client.files.info({ file: fileId });
+  const file = result.file;
+  if (!file) {
+    return null;
+  }
+
+  const shares = file.shares as
+    | Record<string, Record<string, { ts: string; thread_ts?: string }[]>>
+    | undefined;
+  const share = shares?.public?.[channel]?.[0] ?? shares?.private?.[channel]?.[0];
+  if (!share) {
+    return null;
+  }
+
+  return {
+    file: {
+      id: file.id as string,
+      name: file.name || "image",
+      mimetype: file.mimetype || "",
+      url_private_download: file.url_private_download,
+      url_private: file.url_private,
+    },
+    messageTs: share.ts,
+    threadTs: share.thread_ts,
+  };
+}
+
 // Get bot user ID
 export async function getBotUserId(client: WebClient): Promise<string> {
   const result = await client.auth.test();
   return result.user_id as string;
 }
+
+// Workspace admins and owners, plus anyone listed in OCR_ADMIN_USERS (requires users:read)
+export async function isWorkspaceAdmin(client: WebClient, userId: string): Promise<boolean> {
+  const configured = (process.env.OCR_ADMIN_USERS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (configured.includes(userId)) {
+    return true;
+  }
+
+  try {
+    const result = await client.users.info({ user: userId });
+    return !!(result.user?.is_admin || result.user?.is_owner);
+  } catch {
+    // Missing scope or unknown user: not an admin
+    return false;
+  }
+}
+
+// Whether the user is in the channel (requires channels:read / groups:read, and
+// for private channels the bot must be a member too)
+export async function isChannelMember(
+  client: WebClient,
+  channel: string,
+  userId: string
+): Promise<boolean> {
+  try {
+    let cursor: string | undefined;
+    do {
+      const result = await withSlackRateLimitRetry(() =>
+        client.conversations.members({ channel, limit: 1000, cursor })
+      );
+      if (result.members?.includes(userId)) {
+        return true;
+      }
+      cursor = result.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+    return false;
+  } catch {
+    // Missing scope or a channel the bot can't see: not verifiable, so not a member
+    return false;
+  }
+}
@@ -0,0 +1,125 @@
+import { RESULT_SEPARATOR } from "./ocr.js";
+
+const CODE_FENCE = "```";
+
+function countFences(line: string): number {
+  return line.split(CODE_FENCE).length - 1;
+}
+
+// Break text into paragraphs on blank lines, keeping each code block whole
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let inCode = false;
+
+  for (const line of text.split("\n")) {
+    if (!inCode && line.trim() === "") {
+      if (current.length > 0) {
+        paragraphs.push(current.join("\n"));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+    if (countFences(line) % 2 === 1) {
+      inCode = !inCode;
+    }
+  }
+  if (current.length > 0) {
+    paragraphs.push(current.join("\n"));
+  }
+
+  return paragraphs;
+}
+
+// Pack lines into pieces of at most maxLength, cutting single lines only when
+// they are longer. A piece cut inside a code block is closed with a fence and
+// the block reopened in the next piece, wherever the block started.
+function packLines(lines: string[], maxLength: number): string[] {
+  const pieces: string[] = [];
+  const reopen = `${CODE_FENCE}\n`;
+  const close = `\n${CODE_FENCE}`;
+  let current = "";
+  // What the current piece started with: "" or the reopened fence
+  let start = "";
+  let inCode = false;
+
+  function cut(): void {
+    pieces.push(inCode ? `${current}${close}` : current);
+    start = inCode ? CODE_FENCE : "";
+    current = start;
+  }
+
+  function add(part: string, inCodeAfter: boolean): void {
+    // Leave room to close the block if this piece ends inside it
+    const reserve = inCodeAfter ? close.length : 0;
+    if (current.length > start.length) {
+      const candidate = `${current}\n${part}`;
+      if (candidate.length + reserve <= maxLength) {
+        current = candidate;
+        inCode = inCodeAfter;
+        return;
+      }
+      cut();
+    }
+    current = current ? `${current}\n${part}` : part;
+    inCode = inCodeAfter;
+  }
+
+  for (const line of lines) {
+    const inCodeAfter = countFences(line) % 2 === 1 ? !inCode : inCode;
+    // Slices of an over-long line must fit a reopened and closed piece
+    const overhead =
+      (inCode ? reopen.length : 0) + (inCode || inCodeAfter ? close.length : 0);
+    const size = Math.max(maxLength - overhead, 1);
+    for (let i = 0; i < Math.max(line.length, 1); i += size) {
+      add(line.slice(i, i + size), i + size >= line.length ? inCodeAfter : inCode);
+    }
+  }
+  if (current.length > start.length) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+// Split per-image sections into messages of at most maxLength characters.
+// Images are kept together where possible, then split on paragraph boundaries.
+export function splitMessage(sections: string[], maxLength: number): string[] {
+  const messages: string[] = [];
+  let current = "";
+
+  function append(piece: string, separator: string): void {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+    } else {
+      if (current) {
+        messages.push(current);
+      }
+      current = piece;
+    }
+  }
+
+  for (const section of sections) {
+    if (section.length <= maxLength) {
+      append(section, RESULT_SEPARATOR);
+      continue;
+    }
+
+    let separator = RESULT_SEPARATOR;
+    for (const paragraph of splitParagraphs(section)) {
+      const pieces =
+        paragraph.length <= maxLength ? [paragraph] : packLines(paragraph.split("\n"), maxLength);
+      for (const piece of pieces) {
+        append(piece, separator);
+        separator = "\n\n";
+      }
+    }
+  }
+  if (current) {
+    messages.push(current);
+  }
+
+  return messages;
+}
@@ -0,0 +1,146 @@
+import { createVercelBlobStorage } from "./storage/vercel-blob.js";
+import { createFilesystemStorage } from "./storage/filesystem.js";
+import { createMemoryStorage } from "./storage/memory.js";
+
+export interface StorageMetadata {
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+  // Where the backend serves the object (public Blob URL, file path); never set
+  // for private objects a backend would otherwise expose
+  url?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  body: string;
+  metadata: StorageMetadata;
+}
+
+export interface StorageEntry {
+  key: string;
+  metadata: StorageMetadata;
+}
+
+export interface PutOptions {
+  contentType?: string;
+  // Objects are private unless stated; only public objects get a shareable URL
+  access?: "private" | "public";
+  // false: only create the object, throwing StorageConflictError if the key exists
+  allowOverwrite?: boolean;
+}
+
+// A put with allowOverwrite: false found the key already taken
+export class StorageConflictError extends Error {
+  constructor(readonly key: string) {
+    super(`Storage object "${key}" already exists`);
+    this.name = "StorageConflictError";
+  }
+}
+
+export interface LegacyMigrationReport {
+  // Legacy objects copied to private storage
+  migrated: number;
+  // Legacy objects dropped: expired, or superseded by a newer private copy
+  deleted: number;
+  // False when the deadline cut the run short
+  complete: boolean;
+}
+
+// Every backend stores text objects under slash-separated keys, e.g. "jobs/C123_1712345678.000100.json"
+export interface StorageBackend {
+  name: string;
+  // null if the object doesn't exist
+  get(key: string): Promise<StoredObject | null>;
+  // Creates or replaces the object (see PutOptions.allowOverwrite)
+  put(key: string, body: string, options?: PutOptions): Promise<StorageEntry>;
+  // All objects whose key starts with prefix, in key order
+  list(prefix: string): Promise<StorageEntry[]>;
+  // Missing keys are ignored
+  delete(keys: string | string[]): Promise<void>;
+  // Move objects an earlier version stored publicly into private storage, deleting
+  // those keep() rejects; only backends that have such objects implement it
+  migrateLegacyObjects?(
+    keep: (entry: StorageEntry) => boolean,
+    options?: { deadline?: number }
+  ): Promise<LegacyMigrationReport>;
+}
+
+export type StorageBackendName = "vercel-blob" | "filesystem" | "memory";
+
+const backendFactories: Record<StorageBackendName, () => StorageBackend> = {
+  "vercel-blob": createVercelBlobStorage,
+  filesystem: createFilesystemStorage,
+  memory: createMemoryStorage,
+};
+
+// Backends are created once per instance (the memory backend holds the data)
+const backendCache = new Map<StorageBackendName, StorageBackend>();
+let overrideBackend: StorageBackend | null = null;
+
+function isBackendName(name: string): name is StorageBackendName {
+  return name in backendFactories;
+}
+
+// Vercel Blob when a token is configured, otherwise the local filesystem
+function getDefaultBackendName(): string {
+  return process.env.BLOB_READ_WRITE_TOKEN ? "vercel-blob" : "filesystem";
+}
+
+// Resolve the backend from STORAGE_BACKEND
+export function getStorage(
+  name: string = process.env.STORAGE_BACKEND || getDefaultBackendName()
+): StorageBackend {
+  if (overrideBackend) {
+    return overrideBackend;
+  }
+
+  const normalized = name.trim().toLowerCase();
+  if (!isBackendName(normalized)) {
+    throw new Error(
+      `Unknown storage backend "${name}". Expected one of: ${Object.keys(backendFactories).join(", ")}`
+    );
+  }
+
+  let backend = backendCache.get(normalized);
+  if (!backend) {
+    backend = backendFactories[normalized]();
+    backendCache.set(normalized, backend);
+  }
+  return backend;
+}
+
+// Explicitly configure the backend (e.g. in tests); pass null to go back to env selection
+export function setStorage(backend: StorageBackend | null): void {
+  overrideBackend = backend;
+}
+
+// Parsed JSON object, or null if it doesn't exist or isn't valid JSON
+export async function readJson<T>(key: string): Promise<T | null> {
+  const object = await getStorage().get(key);
+  if (!object) {
+    return null;
+  }
+  try {
+    return JSON.parse(object.body) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeJson(
+  key: string,
+  value: unknown,
+  options: { pretty?: boolean; allowOverwrite?: boolean } = {}
+): Promise<StorageEntry> {
+  const body = options.pretty ? JSON.stringify(value, null, 2) : JSON.stringify(value);
+  return getStorage().put(key, body, {
+    contentType: "application/json",
+    allowOverwrite: options.allowOverwrite,
+  });
+}
+
+// Where an object lives, for log messages: its URL if the backend has one, else its key
+export function describeLocation(entry: StorageEntry): string {
+  return entry.metadata.url ?? entry.key;
+}
@@ -0,0 +1,149 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  StorageConflictError,
+  type StorageBackend,
+  type StorageEntry,
+  type StorageMetadata,
+} from "../storage.js";
+
+const DEFAULT_STORAGE_DIR = ".data";
+const TEMP_SUFFIX = ".tmp";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+};
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+// Objects are plain files under a root directory (for `vercel dev` and self-hosting).
+// The content type is derived from the key's extension.
+export function createFilesystemStorage(
+  rootDir: string = process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR
+): StorageBackend {
+  const root = path.resolve(process.cwd(), rootDir);
+
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+
+  function toKey(filePath: string): string {
+    return path.relative(root, filePath).split(path.sep).join("/");
+  }
+
+  async function getMetadata(filePath: string): Promise<StorageMetadata> {
+    const stats = await fs.stat(filePath);
+    return {
+      contentType: CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream",
+      size: stats.size,
+      uploadedAt: stats.mtime,
+      url: filePath,
+    };
+  }
+
+  async function walk(dir: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await walk(entryPath)));
+      } else if (!entry.name.endsWith(TEMP_SUFFIX)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  return {
+    name: "filesystem",
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const [body, metadata] = await Promise.all([
+          fs.readFile(filePath, "utf8"),
+          getMetadata(filePath),
+        ]);
+        return { key, body, metadata };
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async put(key, body, options = {}) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename, so readers never see a half-written object
+      const tempPath = `${filePath}.${process.pid}-${Math.random().toString(36).slice(2, 8)}${TEMP_SUFFIX}`;
+      await fs.writeFile(tempPath, body, {
+        encoding: "utf8",
+        // Private objects are readable by the server's user only
+        mode: options.access === "public" ? 0o644 : 0o600,
+      });
+      if (options.allowOverwrite === false) {
+        // Linking fails if the file exists, so only one writer can create it
+        try {
+          await fs.link(tempPath, filePath);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException)?.code === "EEXIST") {
+            throw new StorageConflictError(key);
+          }
+          throw error;
+        } finally {
+          await fs.rm(tempPath, { force: true });
+        }
+      } else {
+        await fs.rename(tempPath, filePath);
+      }
+      return { key, metadata: await getMetadata(filePath) };
+    },
+
+    async list(prefix) {
+      // Only walk the directory the prefix points into
+      const slash = prefix.lastIndexOf("/");
+      const dir = slash === -1 ? root : resolveKey(prefix.slice(0, slash + 1));
+      const entries: StorageEntry[] = [];
+      for (const filePath of await walk(dir)) {
+        const key = toKey(filePath);
+        if (key.startsWith(prefix)) {
+          try {
+            entries.push({ key, metadata: await getMetadata(filePath) });
+          } catch (error) {
+            // Deleted while listing
+            if (!isNotFound(error)) {
+              throw error;
+            }
+          }
+        }
+      }
+      return entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+
+    async delete(keys) {
+      await Promise.all(
+        (Array.isArray(keys) ? keys : [keys]).map((key) => fs.rm(resolveKey(key), { force: true }))
+      );
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { StorageConflictError, type StorageBackend, type StoredObject } from "../storage.js";
+
+// Process-local storage for tests and offline runs; nothing survives a restart
+export function createMemoryStorage(): StorageBackend {
+  const objects = new Map<string, StoredObject>();
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const object = objects.get(key);
+      return object ? { ...object, metadata: { ...object.metadata } } : null;
+    },
+
+    async put(key, body, options = {}) {
+      if (options.allowOverwrite === false && objects.has(key)) {
+        throw new StorageConflictError(key);
+      }
+      const object: StoredObject = {
+        key,
+        body,
+        metadata: {
+          contentType: options.contentType ?? "text/plain",
+          size: Buffer.byteLength(body),
+          uploadedAt: new Date(),
+        },
+      };
+      objects.set(key, object);
+      return { key, metadata: { ...object.metadata } };
+    },
+
+    async list(prefix) {
+      return [...objects.values()]
+        .filter((object) => object.key.startsWith(prefix))
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        .map(({ key, metadata }) => ({ key, metadata: { ...metadata } }));
+    },
+
+    async delete(keys) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        objects.delete(key);
+      }
+    },
+  };
+}
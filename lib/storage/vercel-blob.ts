@@ -0,0 +1,157 @@
+import {
+  put,
+  get,
+  list,
+  del,
+  copy,
+  BlobError,
+  BlobPreconditionFailedError,
+  type ListBlobResultBlob,
+} from "@vercel/blob";
+import {
+  StorageConflictError,
+  type StorageBackend,
+  type StorageEntry,
+  type LegacyMigrationReport,
+} from "../storage.js";
+import { mapWithConcurrency } from "../concurrency.js";
+
+// Earlier versions wrote every object as a public blob at its key;
+// migrateLegacyObjects moves them to private blobs
+const MIGRATION_CONCURRENCY = 8;
+
+// Private blobs are served from {store}.private.blob.vercel-storage.com
+function isPrivateBlob(blob: ListBlobResultBlob): boolean {
+  return new URL(blob.url).hostname.includes(".private.");
+}
+
+function isExistingBlobError(error: unknown): boolean {
+  return (
+    error instanceof BlobPreconditionFailedError ||
+    (error instanceof BlobError && /already exists/i.test(error.message))
+  );
+}
+
+function toEntry(key: string, blob: ListBlobResultBlob, isPrivate: boolean): StorageEntry {
+  return {
+    key,
+    metadata: {
+      // Listing doesn't report content types
+      contentType: "application/octet-stream",
+      size: blob.size,
+      uploadedAt: blob.uploadedAt,
+      url: isPrivate ? undefined : blob.url,
+    },
+  };
+}
+
+// Vercel Blob store selected by BLOB_READ_WRITE_TOKEN. Objects are stored at
+// their key; private ones need the store token to read, and their URLs are never returned.
+export function createVercelBlobStorage(): StorageBackend {
+  async function listBlobs(prefix: string) {
+    const blobs = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix, cursor });
+      blobs.push(...page.blobs);
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return blobs;
+  }
+
+  return {
+    name: "vercel-blob",
+
+    async get(key) {
+      // Skip the CDN cache: job state and dedup markers must read their latest write
+      const result = await get(key, { access: "private", useCache: false });
+      if (!result || result.statusCode !== 200) {
+        return null;
+      }
+
+      return {
+        key,
+        body: await new Response(result.stream).text(),
+        metadata: {
+          contentType: result.blob.contentType,
+          size: result.blob.size,
+          uploadedAt: result.blob.uploadedAt,
+        },
+      };
+    },
+
+    async put(key, body, options = {}) {
+      const isPrivate = options.access !== "public";
+      const allowOverwrite = options.allowOverwrite ?? true;
+      const blob = await put(key, body, {
+        access: isPrivate ? "private" : "public",
+        addRandomSuffix: false,
+        allowOverwrite,
+        contentType: options.contentType,
+      }).catch((error: unknown) => {
+        // Blob refuses to replace an existing pathname when overwriting isn't allowed
+        if (!allowOverwrite && isExistingBlobError(error)) {
+          throw new StorageConflictError(key);
+        }
+        throw error;
+      });
+      return {
+        key,
+        metadata: {
+          contentType: blob.contentType,
+          size: Buffer.byteLength(body),
+          uploadedAt: new Date(),
+          url: isPrivate ? undefined : blob.url,
+        },
+      };
+    },
+
+    async list(prefix) {
+      // Legacy public objects stay out of listings until they are migrated
+      return (await listBlobs(prefix))
+        .filter(isPrivateBlob)
+        .map((blob) => toEntry(blob.pathname, blob, true))
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+
+    async delete(keys) {
+      const pathnames = Array.isArray(keys) ? keys : [keys];
+      if (pathnames.length > 0) {
+        await del(pathnames);
+      }
+    },
+
+    async migrateLegacyObjects(keep, options = {}) {
+      const blobs = await listBlobs("");
+      const privateKeys = new Set(blobs.filter(isPrivateBlob).map((blob) => blob.pathname));
+      const legacy = blobs
+        .filter((blob) => !isPrivateBlob(blob))
+        .map((blob) => toEntry(blob.pathname, blob, false));
+
+      const report: LegacyMigrationReport = { migrated: 0, deleted: 0, complete: true };
+      for (let start = 0; start < legacy.length; start += MIGRATION_CONCURRENCY) {
+        if (options.deadline && Date.now() >= options.deadline) {
+          report.complete = false;
+          break;
+        }
+        const batch = legacy.slice(start, start + MIGRATION_CONCURRENCY);
+        await mapWithConcurrency(batch, MIGRATION_CONCURRENCY, async (entry) => {
+          const url = entry.metadata.url!;
+          // Objects already written privately by this version are newer than the public copy
+          if (!privateKeys.has(entry.key) && keep(entry)) {
+            await copy(url, entry.key, {
+              access: "private",
+              addRandomSuffix: false,
+              allowOverwrite: true,
+            });
+            report.migrated++;
+          } else {
+            report.deleted++;
+          }
+          await del(url);
+        });
+      }
+      return report;
+    },
+  };
+}
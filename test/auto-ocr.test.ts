@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setStorage, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { sleep } from "../lib/retry.js";
+
+const processThread = vi.hoisted(() => {
+  // Read when lib/auto-ocr.ts loads
+  process.env.OCR_AUTO_DEBOUNCE_MS = "50";
+  return vi.fn<typeof import("../lib/process-thread.js").processThread>();
+});
+
+vi.mock("../lib/process-thread.js", () => ({ processThread }));
+
+const { queueAutoOCR, runAutoOCRWhenSettled } = await import("../lib/auto-ocr.js");
+
+// What the events route does for each upload event in an auto-OCR channel
+async function receiveUpload(
+  threadTs: string,
+  fileIds: string[],
+  eventId: string
+): Promise<void> {
+  await queueAutoOCR("C1", threadTs, fileIds, eventId, "UALICE");
+  await runAutoOCRWhenSettled("C1", threadTs, eventId);
+}
+
+describe("Auto-OCR", () => {
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    storage = createMemoryStorage();
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    processThread.mockClear();
+    vi.restoreAllMocks();
+  });
+
+  it("should reply once for a burst of uploads, including duplicate events per file", async () => {
+    // Slack sends a message event for each upload and a file_shared event for each file
+    const events: [string[], string][] = [
+      [["F1", "F2"], "Ev1"],
+      [["F1"], "Ev2"],
+      [["F2"], "Ev3"],
+      [["F3"], "Ev4"],
+      [["F3"], "Ev5"],
+    ];
+
+    const handled: Promise<void>[] = [];
+    for (const [fileIds, eventId] of events) {
+      handled.push(receiveUpload("1.000001", fileIds, eventId));
+      await sleep(5);
+    }
+    await Promise.all(handled);
+
+    expect(processThread).toHaveBeenCalledTimes(1);
+    const [channel, threadTs, options] = processThread.mock.calls[0];
+    expect([channel, threadTs]).toEqual(["C1", "1.000001"]);
+    expect(options?.fileIds?.sort()).toEqual(["F1", "F2", "F3"]);
+    expect(options?.userId).toBe("UALICE");
+    expect(await storage.list("auto-pending/")).toEqual([]);
+  });
+
+  it("should reply separately per thread and to uploads after the burst settled", async () => {
+    await Promise.all([
+      receiveUpload("1.000001", ["F1"], "Ev1"),
+      receiveUpload("2.000001", ["F2"], "Ev2"),
+    ]);
+    await receiveUpload("1.000001", ["F3"], "Ev3");
+
+    const calls = processThread.mock.calls;
+    expect(calls.map(([, threadTs, options]) => [threadTs, options?.fileIds])).toEqual([
+      ["1.000001", ["F1"]],
+      ["2.000001", ["F2"]],
+      ["1.000001", ["F3"]],
+    ]);
+  });
+
+  it("should keep uploads queued when their run fails", async () => {
+    processThread.mockRejectedValueOnce(new Error("Slack is down"));
+    await expect(receiveUpload("1.000001", ["F1"], "Ev1")).rejects.toThrow("Slack is down");
+    expect(await storage.list("auto-pending/")).toHaveLength(1);
+
+    await receiveUpload("1.000001", ["F2"], "Ev2");
+    expect(processThread.mock.calls[1][2]?.fileIds?.sort()).toEqual(["F1", "F2"]);
+    expect(await storage.list("auto-pending/")).toEqual([]);
+  });
+});
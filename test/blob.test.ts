@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { sleep } from "../lib/retry.js";
+import { setStorage, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { markFilesAsProcessed, getProcessedFileIds, getThreadResults } from "../lib/blob.js";
+
+// Memory storage with random write latency, so overlapping writers interleave
+function createSlowStorage(): StorageBackend {
+  const storage = createMemoryStorage();
+  return {
+    ...storage,
+    async put(key, body, options) {
+      await sleep(Math.random() * 10);
+      return storage.put(key, body, options);
+    },
+  };
+}
+
+function result(fileId: string) {
+  return {
+    fileName: `${fileId}.png`,
+    fileId,
+    text: `text of ${fileId}`,
+    language: "English",
+    noTextFound: false,
+    contentType: "other" as const,
+  };
+}
+
+describe("Processed state", () => {
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    storage = createSlowStorage();
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("should not lose IDs when runs mark files in parallel", async () => {
+    const runs = Array.from({ length: 20 }, (_, run) => [`F${run}a`, `F${run}b`]);
+
+    await Promise.all(
+      runs.map((fileIds) => markFilesAsProcessed("C1", "1.000001", fileIds))
+    );
+
+    const processed = await getProcessedFileIds("C1", "1.000001");
+    expect(processed.sort()).toEqual(runs.flat().sort());
+  });
+
+  it("should merge legacy state with per-file markers", async () => {
+    await storage.put(
+      "processed/C1_1.000001.json",
+      JSON.stringify({ processedFileIds: ["OLD"], results: [result("OLD")], lastUpdated: "" })
+    );
+
+    await markFilesAsProcessed("C1", "1.000001", ["NEW"], [result("NEW")]);
+
+    expect((await getProcessedFileIds("C1", "1.000001")).sort()).toEqual(["NEW", "OLD"]);
+    expect((await getThreadResults("C1", "1.000001")).map((r) => r.fileId)).toEqual(["OLD", "NEW"]);
+  });
+
+  it("should keep results in thread order and replace re-run results", async () => {
+    const files = [
+      { id: "A", message_ts: "1.000001" },
+      { id: "B", message_ts: "1.000002" },
+      { id: "C", message_ts: "1.000002" },
+    ];
+    await markFilesAsProcessed("C1", "1.000001", ["A", "B", "C"], ["A", "B", "C"].map(result), files);
+    await sleep(5);
+    await markFilesAsProcessed("C1", "1.000001", ["A"], [{ ...result("A"), text: "rerun" }], files);
+
+    const results = await getThreadResults("C1", "1.000001");
+    expect(results.map((r) => [r.fileId, r.text])).toEqual([
+      ["A", "rerun"],
+      ["B", "text of B"],
+      ["C", "text of C"],
+    ]);
+  });
+
+  it("should list results saved without their message in run order, before the rest", async () => {
+    await markFilesAsProcessed("C1", "1.000001", ["Z", "Y"], [result("Z"), result("Y")]);
+    await sleep(5);
+    await markFilesAsProcessed("C1", "1.000001", ["X"], [result("X")], [{ id: "X", message_ts: "1.000001" }]);
+
+    const results = await getThreadResults("C1", "1.000001");
+    expect(results.map((r) => r.fileId)).toEqual(["Z", "Y", "X"]);
+  });
+});
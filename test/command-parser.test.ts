@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { parseCommandText, parsePermalink } from "../lib/command-parser.js";
+
+describe("Command parsing", () => {
+  it("should get channel and thread from a permalink", () => {
+    expect(
+      parsePermalink("https://acme.slack.com/archives/C0123ABC/p1712345678901234")
+    ).toEqual({ channel: "C0123ABC", threadTs: "1712345678.901234", messageTs: undefined });
+  });
+
+  it("should use thread_ts when the permalink points at a reply", () => {
+    expect(
+      parsePermalink(
+        "https://acme.slack.com/archives/C0123ABC/p1712345678901234?thread_ts=1712345600.000100&cid=C0123ABC"
+      )
+    ).toEqual({
+      channel: "C0123ABC",
+      threadTs: "1712345600.000100",
+      messageTs: "1712345678.901234",
+    });
+  });
+
+  it("should accept Slack-wrapped links and bare timestamps", () => {
+    const linked = parseCommandText("<https://acme.slack.com/archives/C1/p1712345678901234> force");
+    expect(linked.target?.channel).toBe("C1");
+    expect(linked.force).toBe(true);
+
+    const bare = parseCommandText("status 1712345678.901234");
+    expect(bare.command).toBe("status");
+    expect(bare.target).toEqual({ threadTs: "1712345678.901234" });
+  });
+
+  it("should parse options from mention text", () => {
+    const parsed = parseCommandText("<@U123> force lang=de last=3");
+    expect(parsed).toMatchObject({
+      command: "run",
+      force: true,
+      targetLanguage: "de",
+      last: 3,
+      errors: [],
+      unknownWords: [],
+    });
+  });
+
+  it("should parse translate-only", () => {
+    expect(parseCommandText("<@U123> translate-only lang=de")).toMatchObject({
+      translationOnly: true,
+      targetLanguage: "de",
+    });
+  });
+
+  it("should parse image selection options", () => {
+    const parsed = parseCommandText(
+      "<@U123> only-this from=<@U0456|alice> after=<https://acme.slack.com/archives/C1/p1712345678901234>"
+    );
+    expect(parsed).toMatchObject({
+      onlyThisMessage: true,
+      fromUser: "U0456",
+      afterTs: "1712345678.901234",
+      errors: [],
+    });
+    expect(parseCommandText("after=1712345678.901234").afterTs).toBe("1712345678.901234");
+    expect(parseCommandText("from=alice").errors[0]).toMatch(/from=/);
+  });
+
+  it("should recognize help and channel-lang", () => {
+    expect(parseCommandText("<@U123> help").command).toBe("help");
+    expect(parseCommandText("channel-lang=off")).toMatchObject({
+      command: "channel-lang",
+      channelLanguage: "off",
+    });
+  });
+
+  it("should parse auto on and off", () => {
+    expect(parseCommandText("auto on")).toMatchObject({ command: "auto", autoOCR: true });
+    expect(parseCommandText("<@U123> auto off")).toMatchObject({ command: "auto", autoOCR: false });
+    expect(parseCommandText("auto").errors[0]).toMatch(/auto on/);
+  });
+
+  it("should parse repost and export formats", () => {
+    expect(parseCommandText("<@U123> repost").command).toBe("repost");
+    expect(parseCommandText("export json 1712345678.901234")).toMatchObject({
+      command: "export",
+      exportFormat: "json",
+      target: { threadTs: "1712345678.901234" },
+    });
+    expect(parseCommandText("<@U123> export").exportFormat).toBe("markdown");
+  });
+
+  it("should parse forget scopes", () => {
+    expect(parseCommandText("forget 1712345678.901234")).toMatchObject({
+      command: "forget",
+      forgetScope: "thread",
+      target: { threadTs: "1712345678.901234" },
+    });
+    expect(parseCommandText("<@U123> forget channel").forgetScope).toBe("channel");
+    expect(parseCommandText("forget from=<@U456|alice>")).toMatchObject({
+      forgetScope: "user",
+      fromUser: "U456",
+    });
+    expect(parseCommandText("forget channel from=<@U456>").errors[0]).toMatch(/not both/);
+    expect(parseCommandText("channel").unknownWords).toEqual(["channel"]);
+  });
+
+  it("should report invalid options", () => {
+    expect(parseCommandText("last=0").errors[0]).toMatch(/last=/);
+    expect(parseCommandText("lang=xx").errors[0]).toMatch(/xx/);
+    expect(parseCommandText("depth=2").errors[0]).toMatch(/Unknown option/);
+    expect(parseCommandText("https://example.com/foo").errors[0]).toMatch(/message link/);
+  });
+
+  it("should collect words it doesn't understand", () => {
+    expect(parseCommandText("please read this").unknownWords).toEqual(["please", "read", "this"]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "../lib/concurrency.js";
+import { sleep } from "../lib/retry.js";
+
+describe("mapWithConcurrency", () => {
+  it("should keep input order when items finish out of order", async () => {
+    const delays = [30, 5, 20, 1, 10];
+    const results = await mapWithConcurrency(delays, 3, async (delay, index) => {
+      await sleep(delay);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(5);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("should handle empty input", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
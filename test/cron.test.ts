@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import cleanup from "../api/cron/cleanup.js";
+import resumeJobs from "../api/cron/resume-jobs.js";
+import { setStorage } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+
+type Handler = (req: VercelRequest, res: VercelResponse) => Promise<void>;
+
+async function callCron(handler: Handler, authorization?: string): Promise<number> {
+  const req = {
+    method: "GET",
+    headers: authorization ? { authorization } : {},
+    query: {},
+  } as unknown as VercelRequest;
+  let status = 0;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as VercelResponse;
+
+  await handler(req, res);
+  return status;
+}
+
+describe.each([
+  ["cleanup", cleanup],
+  ["resume-jobs", resumeJobs],
+])("Cron route %s", (_name, handler) => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setStorage(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject every request when CRON_SECRET is not set", async () => {
+    vi.stubEnv("CRON_SECRET", "");
+
+    expect(await callCron(handler)).toBe(401);
+    expect(await callCron(handler, "Bearer ")).toBe(401);
+    expect(await callCron(handler, "Bearer undefined")).toBe(401);
+  });
+
+  it("should only accept the configured secret", async () => {
+    vi.stubEnv("CRON_SECRET", "s3cret");
+
+    expect(await callCron(handler, "Bearer wrong")).toBe(401);
+    expect(await callCron(handler, "Bearer s3cret")).toBe(200);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { claimEvent, getSlackRetryInfo } from "../lib/event-dedup.js";
+import { setStorage, writeJson, readJson, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+
+describe("Event deduplication", () => {
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("should accept an event once", async () => {
+    expect(await claimEvent("Ev001")).toBe(true);
+    expect(await claimEvent("Ev001", { retryNum: 1, retryReason: "http_timeout" })).toBe(false);
+    expect(await readJson("events/Ev001.json")).toMatchObject({ eventId: "Ev001" });
+  });
+
+  it("should recognise events accepted by another instance", async () => {
+    await writeJson("events/Ev002.json", { eventId: "Ev002", receivedAt: new Date().toISOString() });
+    expect(await claimEvent("Ev002", { retryNum: 2 })).toBe(false);
+  });
+
+  it("should accept events again once their marker has expired", async () => {
+    const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+    await writeJson("events/Ev003.json", { eventId: "Ev003", receivedAt: dayAgo });
+    expect(await claimEvent("Ev003")).toBe(true);
+  });
+
+  it("should treat an event another instance claims between the check and the write as a duplicate", async () => {
+    setStorage({
+      ...storage,
+      async get(key) {
+        const object = await storage.get(key);
+        await storage.put(key, JSON.stringify({ eventId: "Ev005", receivedAt: new Date().toISOString() }));
+        return object;
+      },
+    });
+
+    expect(await claimEvent("Ev005")).toBe(false);
+  });
+
+  it("should process events when storage fails", async () => {
+    setStorage({
+      ...storage,
+      get: async () => {
+        throw new Error("storage down");
+      },
+    });
+    expect(await claimEvent("Ev004")).toBe(true);
+  });
+});
+
+describe("Slack retry headers", () => {
+  it("should read the retry number and reason", () => {
+    expect(
+      getSlackRetryInfo({ "x-slack-retry-num": "2", "x-slack-retry-reason": "http_timeout" })
+    ).toEqual({ retryNum: 2, retryReason: "http_timeout" });
+  });
+
+  it("should treat missing or invalid headers as a first delivery", () => {
+    expect(getSlackRetryInfo({})).toBeNull();
+    expect(getSlackRetryInfo({ "x-slack-retry-num": "abc" })).toBeNull();
+  });
+});
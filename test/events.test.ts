@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import crypto from "crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { setStorage } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { setChannelAutoOCR } from "../lib/auto-ocr.js";
+import { createFakeSlackClient, imageMessage } from "./helpers/slack.js";
+
+const slack = vi.hoisted(() => ({ current: null as unknown }));
+const background = vi.hoisted(() => [] as Promise<unknown>[]);
+const processThread = vi.hoisted(() => {
+  // Read when lib/auto-ocr.ts loads
+  process.env.OCR_AUTO_DEBOUNCE_MS = "10";
+  return vi.fn<typeof import("../lib/process-thread.js").processThread>();
+});
+
+vi.mock("../lib/slack.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/slack.js")>()),
+  getSlackClient: () => slack.current,
+  getFailFastSlackClient: () => slack.current,
+}));
+
+vi.mock("../lib/process-thread.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/process-thread.js")>()),
+  processThread,
+}));
+
+vi.mock("@vercel/functions", () => ({
+  waitUntil: (promise: Promise<unknown>) => background.push(promise),
+}));
+
+const { default: handler } = await import("../api/slack/events.js");
+
+const SIGNING_SECRET = "test-signing-secret";
+let eventCount = 0;
+
+// Send a signed event callback to the endpoint and wait for its background work
+async function sendEvent(event: Record<string, unknown>): Promise<number> {
+  const body = JSON.stringify({
+    type: "event_callback",
+    event,
+    event_id: `Ev${++eventCount}`,
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature =
+    "v0=" +
+    crypto.createHmac("sha256", SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest("hex");
+
+  const req = {
+    method: "POST",
+    headers: { "x-slack-request-timestamp": timestamp, "x-slack-signature": signature },
+    async *[Symbol.asyncIterator]() {
+      yield Buffer.from(body);
+    },
+  } as unknown as VercelRequest;
+  let status = 0;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json: () => res,
+    send: () => res,
+  } as unknown as VercelResponse;
+
+  await handler(req, res);
+  while (background.length > 0) {
+    await background.shift();
+  }
+  return status;
+}
+
+describe("Events", () => {
+  beforeEach(async () => {
+    vi.stubEnv("SLACK_SIGNING_SECRET", SIGNING_SECRET);
+    vi.stubEnv("SLACK_BOT_TOKEN", "xoxb-test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setStorage(createMemoryStorage());
+    await setChannelAutoOCR("C1", true);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    processThread.mockClear();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should auto-OCR a file shared in an auto-OCR channel", async () => {
+    slack.current = createFakeSlackClient({
+      "1.000001": [imageMessage("1.000001", "UALICE", ["01_english_simple.png"])],
+    }).client;
+
+    const fileId = "F_01_english_simple.png";
+    expect(
+      await sendEvent({ type: "file_shared", channel_id: "C1", file_id: fileId, user_id: "UALICE" })
+    ).toBe(200);
+
+    expect(processThread).toHaveBeenCalledTimes(1);
+    expect(processThread.mock.calls[0]).toEqual([
+      "C1",
+      "1.000001",
+      { fileIds: [fileId], userId: "UALICE" },
+    ]);
+  });
+
+  it("should leave shared files that mention the bot to the mention", async () => {
+    slack.current = createFakeSlackClient({
+      "1.000001": [
+        { ...imageMessage("1.000001", "UALICE", ["01_english_simple.png"]), text: "<@UBOT> es" },
+      ],
+    }).client;
+
+    await sendEvent({
+      type: "file_shared",
+      channel_id: "C1",
+      file_id: "F_01_english_simple.png",
+      user_id: "UALICE",
+    });
+
+    expect(processThread).not.toHaveBeenCalled();
+  });
+
+  it("should OCR a reply someone reacted to", async () => {
+    slack.current = createFakeSlackClient({
+      "1.000001": [
+        { ts: "1.000001", user: "UALICE", text: "Notes from today" },
+        { ...imageMessage("1.000002", "UALICE", ["01_english_simple.png"]), thread_ts: "1.000001" },
+        { ...imageMessage("1.000003", "UBOB", ["03_spanish.png"]), thread_ts: "1.000001" },
+      ],
+    }).client;
+
+    await sendEvent({
+      type: "reaction_added",
+      user: "UBOB",
+      reaction: "mag",
+      item: { type: "message", channel: "C1", ts: "1.000003" },
+    });
+
+    expect(processThread).toHaveBeenCalledTimes(1);
+    expect(processThread.mock.calls[0]).toEqual([
+      "C1",
+      "1.000001",
+      expect.objectContaining({ messageTs: "1.000003", userId: "UBOB" }),
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { forget, forgetData, formatForgetCounts } from "../lib/forget.js";
+import { markFilesAsProcessed, getProcessedFileIds } from "../lib/blob.js";
+import { setStorage, writeJson, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { createFakeSlackClient } from "./helpers/slack.js";
+
+vi.mock("../lib/slack.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/slack.js")>()),
+  getSlackClient: () =>
+    createFakeSlackClient({}, { members: { C1: ["UALICE"] }, admins: ["UADMIN"] }).client,
+}));
+
+function job(threadTs: string, images: { id: string; user: string; hash: string }[]) {
+  return {
+    id: `job-${threadTs}`,
+    channel: "C1",
+    threadTs,
+    images: images.map(({ id, user, hash }) => ({
+      file: { id, name: `${id}.png`, user },
+      state: "done",
+      imageHash: hash,
+    })),
+  };
+}
+
+describe("Forget", () => {
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    setStorage(storage);
+
+    await markFilesAsProcessed("C1", "1.000001", ["F1", "F2"], [], [
+      { id: "F1", user: "UALICE" },
+      { id: "F2", user: "UBOB" },
+    ]);
+    await markFilesAsProcessed("C1", "2.000002", ["F3"], [], [{ id: "F3", user: "UALICE" }]);
+    await writeJson("jobs/C1_1.000001/job-1.000001.json", job("1.000001", [
+      { id: "F1", user: "UALICE", hash: "h1" },
+      { id: "F2", user: "UBOB", hash: "h2" },
+    ]));
+    await writeJson("cancellations/job-1.000001.json", {});
+    await writeJson("ocr-cache/h1/v1.json", {});
+    await writeJson("ocr-cache/h2/v1.json", {});
+    await writeJson("logs/2026-10-19/a.json", { data: { channel: "C1", threadTs: "1.000001" } });
+    await writeJson("logs/2026-10-19/b.json", { data: { channel: "C2", threadTs: "1.000001" } });
+    await writeJson("logs/2026-10-19/c.json", { data: { channel: "C12", threadTs: "1.0000012" } });
+    await writeJson("debug/1.json", { body: { event: { user: "UALICE", channel: "C1" } } });
+    await writeJson("settings/C1.json", { autoOCR: true });
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("should delete a thread's state, job, cache entries and logs that mention it", async () => {
+    const counts = await forgetData({ type: "thread", channel: "C1", threadTs: "1.000001" }, "UADMIN");
+
+    expect(counts).toMatchObject({
+      processed: 2,
+      jobs: 1,
+      cachedResults: 2,
+      logs: 1,
+      requestCaptures: 0,
+      settings: 0,
+    });
+    expect(await getProcessedFileIds("C1", "1.000001")).toEqual([]);
+    expect(await getProcessedFileIds("C1", "2.000002")).toEqual(["F3"]);
+    expect(await storage.get("cancellations/job-1.000001.json")).toBeNull();
+    expect(await storage.get("logs/2026-10-19/b.json")).not.toBeNull();
+    expect(await storage.get("logs/2026-10-19/c.json")).not.toBeNull();
+  });
+
+  it("should delete only a user's images and the captures that mention them", async () => {
+    const counts = await forgetData({ type: "user", userId: "UALICE" }, "UADMIN");
+
+    expect(counts).toMatchObject({ processed: 2, jobs: 1, cachedResults: 1, requestCaptures: 1 });
+    expect(await getProcessedFileIds("C1", "1.000001")).toEqual(["F2"]);
+    expect(await getProcessedFileIds("C1", "2.000002")).toEqual([]);
+
+    const remaining = JSON.parse((await storage.get("jobs/C1_1.000001/job-1.000001.json"))!.body);
+    expect(remaining.images.map((image: { file: { id: string } }) => image.file.id)).toEqual(["F2"]);
+    expect(await storage.get("ocr-cache/h2/v1.json")).not.toBeNull();
+  });
+
+  it("should delete channel settings and write an audit record", async () => {
+    const counts = await forgetData({ type: "channel", channel: "C1" }, "UADMIN");
+
+    expect(counts).toMatchObject({ processed: 3, settings: 1, logs: 1, requestCaptures: 1 });
+    const audit = await storage.list("audit/forget/");
+    expect(audit).toHaveLength(1);
+    expect(JSON.parse((await storage.get(audit[0].key))!.body)).toMatchObject({
+      requestedBy: "UADMIN",
+      scope: { type: "channel", channel: "C1" },
+      counts: { settings: 1 },
+    });
+  });
+
+  it("should summarize counts for the requester", () => {
+    const none = {
+      processed: 0, jobs: 0, cachedResults: 0, pendingUploads: 0,
+      settings: 0, logs: 0, requestCaptures: 0, diagnostics: 0,
+    };
+    expect(formatForgetCounts({ type: "channel", channel: "C1" }, none)).toBe(
+      "I didn't have anything stored about <#C1>."
+    );
+    expect(
+      formatForgetCounts(
+        { type: "thread", channel: "C1", threadTs: "1.000001" },
+        { ...none, processed: 2, jobs: 1, logs: 3 }
+      )
+    ).toBe("Forgot this thread: deleted 2 saved results, 1 job record and 3 log files.");
+  });
+
+  it("should only let members and admins forget another channel's data", async () => {
+    expect(await forget({ type: "channel", channel: "C1" }, "UMALLORY", "C9")).toContain(
+      "channels you're a member of"
+    );
+    expect(
+      await forget({ type: "thread", channel: "C1", threadTs: "1.000001" }, "UMALLORY", "C9")
+    ).toContain("channels you're a member of");
+    expect(await getProcessedFileIds("C1", "1.000001")).toEqual(["F1", "F2"]);
+    expect(await storage.get("settings/C1.json")).not.toBeNull();
+
+    expect(await forget({ type: "thread", channel: "C1", threadTs: "1.000001" }, "UALICE", "C9")).toMatch(/^Forgot/);
+    expect(await forget({ type: "channel", channel: "C1" }, "UADMIN", "C9")).toMatch(/^Forgot/);
+  });
+
+  it("should let anyone forget data in the channel they're in, but only admins a user's", async () => {
+    expect(await forget({ type: "channel", channel: "C1" }, "UMALLORY", "C1")).toMatch(/^Forgot/);
+    expect(await forget({ type: "user", userId: "UBOB" }, "UALICE", "C1")).toContain(
+      "Only workspace admins"
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { APICallError, NoObjectGeneratedError, NoOutputGeneratedError } from "ai";
+import { createGeminiProvider } from "../lib/providers/gemini.js";
+
+const generateText = vi.hoisted(() => vi.fn());
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateText,
+  gateway: (modelId: string) => modelId,
+}));
+
+const VALID_RESPONSE = {
+  contentType: "document",
+  language: "English",
+  isTargetLanguage: true,
+  extractedText: "Hello World!",
+  translation: null,
+};
+
+const input = {
+  imageBuffer: Buffer.from("image"),
+  fileName: "hello.png",
+  fileId: "F1",
+  mimeType: "image/png",
+};
+
+function respond(response: unknown) {
+  generateText.mockResolvedValueOnce({ output: response });
+}
+
+// Structured output that didn't match the schema, with the raw model text
+function respondInvalid(text: string) {
+  generateText.mockRejectedValueOnce(
+    new NoObjectGeneratedError({
+      text,
+      response: { id: "r1", timestamp: new Date(), modelId: "test" },
+      usage: {} as never,
+      finishReason: "stop",
+    })
+  );
+}
+
+// Output hit maxOutputTokens, so the SDK never parsed it
+function respondTruncated() {
+  generateText.mockResolvedValueOnce({
+    finishReason: "length",
+    get output() {
+      throw new NoOutputGeneratedError();
+    },
+  });
+}
+
+// A gateway error with an HTTP status, as a rate limit, outage or unknown model
+function respondWithStatus(statusCode: number) {
+  generateText.mockRejectedValueOnce(
+    new APICallError({
+      message: `HTTP ${statusCode}`,
+      url: "https://gateway.test/v1/generate",
+      requestBodyValues: {},
+      statusCode,
+    })
+  );
+}
+
+function calledModels(): string[] {
+  return generateText.mock.calls.map(([options]) => options.model);
+}
+
+describe("Gemini provider", () => {
+  beforeEach(() => {
+    vi.stubEnv("OCR_MODELS", "");
+    vi.stubEnv("OCR_RETRY_BASE_DELAY_MS", "1");
+    vi.stubEnv("OCR_RETRY_MAX_DELAY_MS", "1");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    generateText.mockReset();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe("Response validation", () => {
+    it("should repair fenced JSON without another model call", async () => {
+      respondInvalid("Here you go:\n```json\n" + JSON.stringify(VALID_RESPONSE) + "\n```");
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.text).toBe("Hello World!");
+      expect(result.attempts).toBe(1);
+      expect(generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ask again after a response cut off at the token limit", async () => {
+      respondTruncated();
+      respond(VALID_RESPONSE);
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.error).toBeUndefined();
+      expect(result.text).toBe("Hello World!");
+      expect(result.attempts).toBe(2);
+    });
+
+    it("should report an error after every attempt is invalid", async () => {
+      respondInvalid("not json");
+      respondTruncated();
+      respondInvalid('{"language": "English"}');
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.error).toBe("the model returned an invalid response 3 times");
+      expect(result.attempts).toBe(3);
+      expect(result.usedFallbackModel).toBe(false);
+      expect(generateText).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("Model failover", () => {
+    beforeEach(() => {
+      vi.stubEnv("OCR_MODELS", "primary,fallback");
+    });
+
+    it("should retry a transient error on the same model", async () => {
+      respondWithStatus(503);
+      respond(VALID_RESPONSE);
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.text).toBe("Hello World!");
+      expect(calledModels()).toEqual(["primary", "primary"]);
+      expect(result).toMatchObject({ model: "primary", attempts: 2, usedFallbackModel: false });
+    });
+
+    it("should fail over to the next model once retries are exhausted", async () => {
+      respondWithStatus(429);
+      respondWithStatus(500);
+      respondWithStatus(429);
+      respond(VALID_RESPONSE);
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.text).toBe("Hello World!");
+      expect(calledModels()).toEqual(["primary", "primary", "primary", "fallback"]);
+      expect(result).toMatchObject({ model: "fallback", attempts: 4, usedFallbackModel: true });
+    });
+
+    it("should fail over from an unknown model without retrying it", async () => {
+      respondWithStatus(404);
+      respond(VALID_RESPONSE);
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(calledModels()).toEqual(["primary", "fallback"]);
+      expect(result).toMatchObject({ model: "fallback", attempts: 2, usedFallbackModel: true });
+    });
+
+    it("should report the service as unavailable when every model is down", async () => {
+      for (let call = 0; call < 6; call++) {
+        respondWithStatus(429);
+      }
+
+      const result = await createGeminiProvider().recognize(input);
+
+      expect(result.error).toBe("the OCR service is unavailable (rate limited or down)");
+      expect(result).toMatchObject({ model: "fallback", attempts: 6, usedFallbackModel: false });
+    });
+
+    it("should not fail over on other client errors", async () => {
+      respondWithStatus(400);
+
+      await expect(createGeminiProvider().recognize(input)).rejects.toThrow("HTTP 400");
+      expect(calledModels()).toEqual(["primary"]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import type { WebClient } from "@slack/web-api";
+import type { SlackMessage } from "../../lib/slack.js";
+
+export interface PostedMessage {
+  channel: string;
+  ts: string;
+  threadTs?: string;
+  text: string;
+  blocks?: unknown[];
+}
+
+export interface UploadedFile {
+  channel: string;
+  threadTs?: string;
+  filename: string;
+  content: string;
+}
+
+export interface FakeWorkspace {
+  // Channel ID to member user IDs
+  members?: Record<string, string[]>;
+  admins?: string[];
+}
+
+// In-memory stand-in for the WebClient calls the bot makes. Messages posted
+// by the bot are kept (and updated in place) in `posted`, files in `uploaded`.
+export function createFakeSlackClient(
+  threads: Record<string, SlackMessage[]> = {},
+  workspace: FakeWorkspace = {}
+) {
+  const posted: PostedMessage[] = [];
+  const uploaded: UploadedFile[] = [];
+  let nextTs = 1;
+
+  const client = {
+    conversations: {
+      // Like Slack: any message's ts finds its thread, the parent always comes
+      // first, oldest/latest (inclusive) bound the replies after it and limit
+      // counts the parent
+      async replies({
+        ts,
+        oldest,
+        latest,
+        limit,
+      }: {
+        ts: string;
+        oldest?: string;
+        latest?: string;
+        limit?: number;
+      }) {
+        const thread = Object.values(threads).find((messages) =>
+          messages.some((message) => message.ts === ts)
+        );
+        if (!thread) {
+          return { ok: true, messages: [] };
+        }
+        const [parent, ...replies] = thread;
+        const inRange = replies.filter(
+          (message) =>
+            (!oldest || Number(message.ts) >= Number(oldest)) &&
+            (!latest || Number(message.ts) <= Number(latest))
+        );
+        return { ok: true, messages: [parent, ...inRange].slice(0, limit) };
+      },
+      async members({ channel }: { channel: string }) {
+        return { ok: true, members: workspace.members?.[channel] ?? [] };
+      },
+    },
+    chat: {
+      async postMessage({ channel, thread_ts, text }: { channel: string; thread_ts?: string; text: string }) {
+        const ts = `9000000000.${String(nextTs++).padStart(6, "0")}`;
+        posted.push({ channel, ts, threadTs: thread_ts, text });
+        return { ok: true, ts };
+      },
+      async update({ ts, text, blocks }: { ts: string; text: string; blocks?: unknown[] }) {
+        const message = posted.find((candidate) => candidate.ts === ts);
+        if (message) {
+          message.text = text;
+          message.blocks = blocks;
+        }
+        return { ok: true, ts };
+      },
+      async postEphemeral() {
+        return { ok: true };
+      },
+    },
+    auth: {
+      async test() {
+        return { ok: true, url: "https://acme.slack.com/", user_id: "UBOT" };
+      },
+    },
+    users: {
+      async info({ user }: { user: string }) {
+        return { ok: true, user: { locale: "en-US", is_admin: !!workspace.admins?.includes(user) } };
+      },
+    },
+    files: {
+      async uploadV2({
+        channel_id,
+        thread_ts,
+        filename,
+        content,
+      }: {
+        channel_id: string;
+        thread_ts?: string;
+        filename: string;
+        content: string;
+      }) {
+        uploaded.push({ channel: channel_id, threadTs: thread_ts, filename, content });
+        return { ok: true };
+      },
+      // Files are shared where their message was posted; test threads live in C1
+      async info({ file }: { file: string }) {
+        for (const message of Object.values(threads).flat()) {
+          const found = message.files?.find((candidate) => candidate.id === file);
+          if (found) {
+            const share = { ts: message.ts, thread_ts: message.thread_ts };
+            return { ok: true, file: { ...found, shares: { public: { C1: [share] } } } };
+          }
+        }
+        return { ok: true };
+      },
+    },
+  };
+
+  return { client: client as unknown as WebClient, posted, uploaded };
+}
+
+// A thread message with image attachments named after test/fixtures images
+export function imageMessage(ts: string, user: string, fileNames: string[]): SlackMessage {
+  return {
+    ts,
+    user,
+    files: fileNames.map((name) => ({
+      id: `F_${name}`,
+      name,
+      mimetype: "image/png",
+      url_private_download: `https://files.slack.com/${name}`,
+    })),
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import crypto from "crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { setStorage } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { setOCRProvider } from "../lib/ocr-provider.js";
+import { createMockProvider } from "../lib/providers/mock.js";
+import { processThread } from "../lib/process-thread.js";
+import { findJobResult } from "../lib/jobs.js";
+import { createFakeSlackClient, imageMessage } from "./helpers/slack.js";
+
+const slack = vi.hoisted(() => ({ current: null as unknown }));
+const background = vi.hoisted(() => [] as Promise<unknown>[]);
+
+vi.mock("../lib/slack.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/slack.js")>()),
+  getSlackClient: () => slack.current,
+  getFailFastSlackClient: () => slack.current,
+  downloadImage: async (url: string) => Buffer.from(url),
+}));
+
+vi.mock("@vercel/functions", () => ({
+  waitUntil: (promise: Promise<unknown>) => background.push(promise),
+}));
+
+const { default: handler } = await import("../api/slack/interactions.js");
+
+const SIGNING_SECRET = "test-signing-secret";
+
+// Send a signed interactivity payload to the endpoint and wait for its background work
+async function sendInteraction(payload: unknown): Promise<number> {
+  const body = new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature =
+    "v0=" +
+    crypto.createHmac("sha256", SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest("hex");
+
+  const req = {
+    method: "POST",
+    headers: { "x-slack-request-timestamp": timestamp, "x-slack-signature": signature },
+    async *[Symbol.asyncIterator]() {
+      yield Buffer.from(body);
+    },
+  } as unknown as VercelRequest;
+  let status = 0;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json: () => res,
+    send: () => res,
+  } as unknown as VercelResponse;
+
+  await handler(req, res);
+  while (background.length > 0) {
+    await background.shift();
+  }
+  return status;
+}
+
+describe("Interactions", () => {
+  let fake: ReturnType<typeof createFakeSlackClient>;
+
+  beforeEach(() => {
+    vi.stubEnv("SLACK_SIGNING_SECRET", SIGNING_SECRET);
+    vi.stubEnv("SLACK_BOT_TOKEN", "xoxb-test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setStorage(createMemoryStorage());
+    setOCRProvider(createMockProvider());
+    fake = createFakeSlackClient({
+      "1.000001": [imageMessage("1.000001", "UALICE", ["01_english_simple.png"])],
+    });
+    slack.current = fake.client;
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    setOCRProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should translate an image that was already processed", async () => {
+    await processThread("C1", "1.000001");
+    const fileId = "F_01_english_simple.png";
+    expect((await findJobResult("C1", "1.000001", fileId))?.targetLanguage).toBe("English");
+
+    const status = await sendInteraction({
+      type: "block_actions",
+      user: { id: "UBOB" },
+      actions: [
+        {
+          action_id: "ocr_translate",
+          selected_option: {
+            value: JSON.stringify({ channel: "C1", threadTs: "1.000001", fileId, lang: "de" }),
+          },
+        },
+      ],
+    });
+
+    expect(status).toBe(200);
+    const result = await findJobResult("C1", "1.000001", fileId);
+    expect(result?.targetLanguage).toBe("German");
+    expect(result?.originalText).toContain("Hello World!");
+    expect(fake.posted).toHaveLength(2);
+    expect(fake.posted[1].text).not.toContain("already been processed");
+  });
+
+  it("should reject an options modal submission with unreadable metadata", async () => {
+    const status = await sendInteraction({
+      type: "view_submission",
+      user: { id: "UBOB" },
+      view: { callback_id: "ocr_options", private_metadata: "not json", state: { values: {} } },
+    });
+
+    expect(status).toBe(400);
+    expect(fake.posted).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setStorage, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { setOCRProvider } from "../lib/ocr-provider.js";
+import { createMockProvider } from "../lib/providers/mock.js";
+import {
+  processThread,
+  resumeJob,
+  cancelJob,
+  finalizeCancelledJobs,
+  getJobStatus,
+} from "../lib/process-thread.js";
+import {
+  getJob,
+  getThreadJobs,
+  saveJob,
+  listResumableJobs,
+  countImagesByState,
+} from "../lib/jobs.js";
+import { getProcessedFileIds } from "../lib/blob.js";
+import { createFakeSlackClient, imageMessage } from "./helpers/slack.js";
+
+const slack = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("../lib/slack.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/slack.js")>()),
+  getSlackClient: () => slack.current,
+  getFailFastSlackClient: () => slack.current,
+  downloadImage: async (url: string) => Buffer.from(url),
+}));
+
+const THREAD = "1.000001";
+const MINUTE_MS = 60_000;
+
+describe("Jobs", () => {
+  let storage: StorageBackend;
+  let fake: ReturnType<typeof createFakeSlackClient>;
+  // Added to Date.now(), so a test can run an invocation out of time
+  let clockOffset: number;
+  let recognized: number;
+  // Runs inside the provider while an image is being recognized
+  let duringRecognize: ((count: number) => Promise<void>) | undefined;
+
+  beforeEach(() => {
+    vi.stubEnv("SLACK_BOT_TOKEN", "xoxb-test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const now = Date.now.bind(Date);
+    clockOffset = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => now() + clockOffset);
+
+    storage = createMemoryStorage();
+    setStorage(storage);
+    fake = createFakeSlackClient({
+      [THREAD]: [
+        imageMessage(THREAD, "UALICE", ["01_english_simple.png"]),
+        imageMessage("1.000002", "UALICE", ["02_english_notes.png"]),
+        imageMessage("1.000003", "UBOB", ["03_spanish.png"]),
+      ],
+    });
+    slack.current = fake.client;
+
+    // Run out of time after the second image
+    const provider = createMockProvider();
+    recognized = 0;
+    duringRecognize = undefined;
+    setOCRProvider({
+      ...provider,
+      async recognize(input) {
+        await duringRecognize?.(recognized + 1);
+        if (++recognized === 2) {
+          clockOffset = 10 * MINUTE_MS;
+        }
+        return provider.recognize(input);
+      },
+    });
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    setOCRProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should pause a job that runs out of time and index it for the resume cron", async () => {
+    const result = await processThread("C1", THREAD, { concurrency: 1 });
+
+    expect(result.message).toBe("Processed 2 images, 1 pending");
+    const job = await getJob("C1", THREAD);
+    expect(job).toMatchObject({ status: "running", invocations: 1 });
+    expect(job?.leaseExpiresAt).toBeUndefined();
+    expect(countImagesByState(job!)).toEqual({ pending: 1, done: 2, failed: 0 });
+    expect(fake.posted[0].text).toBe(
+      "Processed 2 of 3 images so far... continuing in the background."
+    );
+    expect((await listResumableJobs()).map((resumable) => resumable.id)).toEqual([job?.id]);
+  });
+
+  it("should finish a resumed job, post every result and drop it from the index", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const [paused] = await listResumableJobs();
+
+    const result = await resumeJob(paused);
+
+    expect(result.processedCount).toBe(3);
+    expect(await getJob("C1", THREAD)).toMatchObject({ status: "completed", invocations: 2 });
+    expect(await listResumableJobs()).toEqual([]);
+    expect(await storage.list("running-jobs/")).toEqual([]);
+    expect((await getProcessedFileIds("C1", THREAD)).sort()).toEqual([
+      "F_01_english_simple.png",
+      "F_02_english_notes.png",
+      "F_03_spanish.png",
+    ]);
+    // The status message now shows the combined output of both invocations
+    expect(fake.posted).toHaveLength(1);
+    expect(fake.posted[0].text).toContain("Hello World!");
+    expect(fake.posted[0].text).toContain("Hola Mundo");
+  });
+
+  it("should resume a paused job from a follow-up mention", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+
+    const result = await processThread("C1", THREAD);
+
+    expect(result.processedCount).toBe(3);
+    expect(recognized).toBe(3);
+    expect((await getJob("C1", THREAD))?.status).toBe("completed");
+  });
+
+  it("should tell a plain mention that another invocation holds the job", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const job = (await getJob("C1", THREAD))!;
+    job.leaseExpiresAt = new Date(Date.now() + 5 * MINUTE_MS).toISOString();
+    await saveJob(job);
+
+    const result = await processThread("C1", THREAD);
+
+    expect(result.message).toBe("Job already in progress");
+    expect(await getThreadJobs("C1", THREAD)).toHaveLength(1);
+    expect(recognized).toBe(2);
+  });
+
+  it("should run a forced request as its own job next to one another invocation holds", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const held = (await getJob("C1", THREAD))!;
+    held.leaseExpiresAt = new Date(Date.now() + 5 * MINUTE_MS).toISOString();
+    await saveJob(held);
+
+    const result = await processThread("C1", THREAD, { force: true, messageTs: "1.000002" });
+
+    expect(result.processedCount).toBe(1);
+    const [first, second] = await getThreadJobs("C1", THREAD);
+    expect(first).toMatchObject({ id: held.id, status: "running", leaseExpiresAt: held.leaseExpiresAt });
+    expect(countImagesByState(first)).toEqual({ pending: 1, done: 2, failed: 0 });
+    expect(second).toMatchObject({ status: "completed", force: true });
+  });
+
+  it("should still finish a paused job's images after a forced single-file run", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const paused = (await getJob("C1", THREAD))!;
+
+    // e.g. the Re-run button on the first image
+    const rerun = await processThread("C1", THREAD, { force: true, messageTs: THREAD });
+    expect(rerun.processedCount).toBe(1);
+    expect(fake.posted).toHaveLength(2);
+
+    const resumable = await listResumableJobs();
+    expect(resumable.map((job) => job.id)).toEqual([paused.id]);
+    await resumeJob(resumable[0]);
+
+    expect((await getThreadJobs("C1", THREAD)).map((job) => [job.id === paused.id, job.status])).toEqual([
+      [true, "completed"],
+      [false, "completed"],
+    ]);
+    expect((await getProcessedFileIds("C1", THREAD)).sort()).toEqual([
+      "F_01_english_simple.png",
+      "F_02_english_notes.png",
+      "F_03_spanish.png",
+    ]);
+    // The paused job's status message no longer says it's continuing
+    expect(fake.posted[0].text).toContain("Hola Mundo");
+  });
+
+  it("should not repeat images an unfinished job will post when a filtered run asks for them", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+
+    const result = await processThread("C1", THREAD, {
+      fileIds: ["F_01_english_simple.png", "F_03_spanish.png"],
+    });
+
+    expect(result.message).toBe("Images already queued");
+    expect(recognized).toBe(2);
+    expect(await getThreadJobs("C1", THREAD)).toHaveLength(1);
+    expect(fake.posted[1].text).toContain("already working on those images");
+  });
+
+  it("should drop index entries of jobs that are no longer running", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const job = (await getJob("C1", THREAD))!;
+    job.status = "cancelled";
+    await saveJob(job);
+
+    expect(await listResumableJobs()).toEqual([]);
+    expect(await storage.list("running-jobs/")).toEqual([]);
+  });
+
+  it("should stop a running job between images when it's cancelled", async () => {
+    duringRecognize = async (count) => {
+      if (count === 1) {
+        expect(await cancelJob("C1", THREAD, "UBOB")).toMatch(/^Cancelling\.\.\./);
+        // Past the interval between cancellation checks
+        clockOffset = 3_000;
+      }
+    };
+
+    const result = await processThread("C1", THREAD, { concurrency: 1 });
+
+    expect(result.processedCount).toBe(1);
+    expect(recognized).toBe(1);
+    const job = (await getJob("C1", THREAD))!;
+    expect(job.status).toBe("cancelled");
+    expect(countImagesByState(job)).toEqual({ pending: 2, done: 1, failed: 0 });
+    expect(await listResumableJobs()).toEqual([]);
+    expect(fake.posted[0].text).toContain("Cancelled by <@UBOB>. 2 images were not processed.");
+  });
+
+  it("should only mark a paused job cancelled until its cancellation is finalized", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+
+    expect(await cancelJob("C1", THREAD, "UBOB")).toBe(
+      "Cancelled. The status message will show what was completed."
+    );
+    expect((await getJob("C1", THREAD))?.status).toBe("running");
+
+    await finalizeCancelledJobs("C1", THREAD);
+
+    const job = (await getJob("C1", THREAD))!;
+    expect(job.status).toBe("cancelled");
+    expect(recognized).toBe(2);
+    expect(await storage.list("running-jobs/")).toEqual([]);
+    expect(fake.posted[0].text).toContain("Cancelled by <@UBOB>. 1 image was not processed.");
+    expect(await cancelJob("C1", THREAD)).toBe("There is no OCR run in progress for this thread.");
+  });
+
+  it("should leave a job another invocation holds for that invocation to finalize", async () => {
+    await processThread("C1", THREAD, { concurrency: 1 });
+    const held = (await getJob("C1", THREAD))!;
+    held.leaseExpiresAt = new Date(Date.now() + 5 * MINUTE_MS).toISOString();
+    await saveJob(held);
+
+    expect(await cancelJob("C1", THREAD)).toMatch(/^Cancelling\.\.\./);
+    await finalizeCancelledJobs("C1", THREAD);
+
+    expect((await getJob("C1", THREAD))?.status).toBe("running");
+  });
+
+  it("should describe the thread's unfinished runs, or its last one", async () => {
+    expect(await getJobStatus("C1", THREAD)).toBe("I haven't processed this thread yet.");
+
+    await processThread("C1", THREAD, { concurrency: 1 });
+    expect(await getJobStatus("C1", THREAD)).toBe(
+      "OCR run paused, waiting to be resumed: 2 of 3 images done, 0 failed, 1 pending. Started 10 min ago."
+    );
+
+    await resumeJob((await listResumableJobs())[0]);
+    expect(await getJobStatus("C1", THREAD)).toBe(
+      "Last OCR run completed: 3 of 3 images done, 0 failed, 0 pending. Started 10 min ago."
+    );
+  });
+});
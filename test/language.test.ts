@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { normalizeLanguage } from "../lib/language.js";
+import { parseCommandText } from "../lib/command-parser.js";
+
+describe("Target language options", () => {
+  it("should normalize codes, locales and names", () => {
+    expect(normalizeLanguage("de")).toBe("German");
+    expect(normalizeLanguage("pt-BR")).toBe("Portuguese");
+    expect(normalizeLanguage("en_US")).toBe("English");
+    expect(normalizeLanguage("german")).toBe("German");
+    expect(normalizeLanguage("xx")).toBeUndefined();
+    expect(normalizeLanguage(undefined)).toBeUndefined();
+  });
+
+  it("should parse lang= from mention text", () => {
+    expect(parseCommandText("<@U123> lang=de").targetLanguage).toBe("de");
+    expect(parseCommandText("<@U123> force lang=pt-BR").targetLanguage).toBe("pt-BR");
+    expect(parseCommandText("<@U123> force").targetLanguage).toBeUndefined();
+  });
+
+  it("should keep channel-lang= separate from lang=", () => {
+    expect(parseCommandText("<@U123> channel-lang=de").channelLanguage).toBe("de");
+    expect(parseCommandText("<@U123> channel-lang=de").targetLanguage).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { logger } from "../lib/logger.js";
+import { sleep } from "../lib/retry.js";
+import { setStorage, readJson, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+
+interface SavedSession {
+  context: string;
+  correlation: Record<string, string>;
+  entries: { message: string; correlation?: Record<string, string> }[];
+}
+
+async function readSessions(storage: StorageBackend): Promise<SavedSession[]> {
+  const entries = await storage.list("logs/");
+  return Promise.all(entries.map(async ({ key }) => (await readJson<SavedSession>(key))!));
+}
+
+describe("Logger", () => {
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setStorage(storage);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    vi.restoreAllMocks();
+    delete process.env.OCR_LOG_LEVEL;
+    delete process.env.OCR_LOG_CONSOLE_LEVEL;
+    delete process.env.OCR_LOG_STORAGE_LEVEL;
+    delete process.env.OCR_LOG_FORMAT;
+  });
+
+  it("should keep concurrent sessions apart", async () => {
+    async function work(eventId: string, delays: number[]) {
+      await logger.session(`test:${eventId}`, { eventId, channel: "C1" }, async () => {
+        for (const [step, delay] of delays.entries()) {
+          await sleep(delay);
+          logger.info(`${eventId} step ${step}`);
+        }
+      });
+    }
+
+    await Promise.all([work("EvA", [5, 1, 5]), work("EvB", [1, 5, 1])]);
+
+    const sessions = await readSessions(storage);
+    expect(sessions).toHaveLength(2);
+    for (const session of sessions) {
+      const eventId = session.correlation.eventId;
+      const steps = session.entries.slice(1);
+      expect(steps.map((entry) => entry.message)).toEqual([0, 1, 2].map((step) => `${eventId} step ${step}`));
+      expect(steps.every((entry) => entry.correlation?.eventId === eventId)).toBe(true);
+    }
+  });
+
+  it("should add context fields for nested work and show them on the console", async () => {
+    await logger.session("test:nested", { eventId: "EvC", channel: "C1" }, async () => {
+      await logger.context({ threadTs: "1.000001" }, async () => {
+        logger.info("inside");
+      });
+      logger.info("outside");
+    });
+
+    const [session] = await readSessions(storage);
+    const inside = session.entries.find((entry) => entry.message === "inside");
+    const outside = session.entries.find((entry) => entry.message === "outside");
+    expect(inside?.correlation).toEqual({ eventId: "EvC", channel: "C1", threadTs: "1.000001" });
+    expect(outside?.correlation).toEqual({ eventId: "EvC", channel: "C1" });
+    expect(console.log).toHaveBeenCalledWith(
+      "[INFO] [event=EvC channel=C1 thread=1.000001] inside",
+      ""
+    );
+  });
+
+  it("should only log to the console outside a session", async () => {
+    logger.info("no session");
+    expect(console.log).toHaveBeenCalledWith("[INFO] no session", "");
+    expect(await storage.list("logs/")).toEqual([]);
+  });
+
+  it("should apply a minimum level per sink", async () => {
+    process.env.OCR_LOG_CONSOLE_LEVEL = "warn";
+    process.env.OCR_LOG_STORAGE_LEVEL = "debug";
+
+    await logger.session("test:levels", {}, async () => {
+      logger.debug("details");
+      logger.warn("careful");
+    });
+
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(console.log).toHaveBeenCalledWith("[WARN] careful", "");
+    const [session] = await readSessions(storage);
+    expect(session.entries.map((entry) => entry.message)).toContain("details");
+  });
+
+  it("should write redacted JSON lines to the console", async () => {
+    process.env.OCR_LOG_FORMAT = "json";
+
+    await logger.session("test:json", { eventId: "EvD" }, async () => {
+      logger.info("Downloading", { url: "https://files.slack.com/files-pri/T1-F1/a.png", token: "xoxb-1" });
+    });
+
+    const line = vi.mocked(console.log).mock.calls
+      .map(([text]) => String(text))
+      .find((text) => text.includes("Downloading"))!;
+    expect(JSON.parse(line)).toMatchObject({
+      level: "info",
+      message: "Downloading",
+      correlation: { eventId: "EvD" },
+      data: { url: "https://files.slack.com/[REDACTED]", token: "[REDACTED]" },
+    });
+
+    const [session] = await readSessions(storage);
+    expect(JSON.stringify(session)).not.toContain("xoxb-1");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { performCachedOCR } from "../lib/ocr-cache.js";
+import { setOCRProvider, type OCRProvider, type OCRInput } from "../lib/ocr-provider.js";
+import { setStorage, type StorageBackend } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("OCR cache", () => {
+  let storage: StorageBackend;
+  let calls: OCRInput[];
+  let failNext: boolean;
+  const image = Buffer.from("image bytes");
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    storage = createMemoryStorage();
+    setStorage(storage);
+    calls = [];
+    failNext = false;
+
+    const provider: OCRProvider = {
+      name: "stub",
+      version: "stub:1",
+      async recognize(input) {
+        calls.push(input);
+        return {
+          fileName: input.fileName,
+          fileId: input.fileId,
+          text: `Text in ${input.targetLanguage}`,
+          language: "Spanish",
+          noTextFound: false,
+          contentType: "other",
+          model: "stub-fallback",
+          attempts: 3,
+          usedFallbackModel: true,
+          error: failNext ? "the OCR service is unavailable (rate limited or down)" : undefined,
+        };
+      },
+    };
+    setOCRProvider(provider);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    setOCRProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should call the provider on a miss and reuse the result on a hit", async () => {
+    const first = await performCachedOCR(image, "a.png", "F1", "image/png");
+    const second = await performCachedOCR(image, "b.png", "F2", "image/png");
+
+    expect(calls).toHaveLength(1);
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ fileName: "b.png", fileId: "F2", text: "Text in English", cached: true });
+    // The model calls behind the cached result aren't repeated on a hit
+    expect(first).toMatchObject({ attempts: 3, usedFallbackModel: true });
+    expect(second).toMatchObject({ attempts: 0, usedFallbackModel: false });
+  });
+
+  it("should miss for different image bytes", async () => {
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    await performCachedOCR(Buffer.from("other bytes"), "a.png", "F1", "image/png");
+
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should key results by target language", async () => {
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    const german = await performCachedOCR(image, "a.png", "F1", "image/png", {
+      targetLanguage: "German",
+    });
+    const english = await performCachedOCR(image, "a.png", "F1", "image/png", {
+      targetLanguage: "English",
+    });
+
+    expect(calls.map((call) => call.targetLanguage)).toEqual(["English", "German"]);
+    expect(german.text).toBe("Text in German");
+    expect(english).toMatchObject({ text: "Text in English", cached: true });
+  });
+
+  it("should bypass the cache when forced and store the fresh result", async () => {
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    const forced = await performCachedOCR(image, "a.png", "F1", "image/png", { force: true });
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+
+    expect(calls).toHaveLength(2);
+    expect(forced.cached).toBeUndefined();
+    expect(await storage.list("ocr-cache/")).toHaveLength(1);
+  });
+
+  it("should expire entries after the TTL and delete them", async () => {
+    vi.stubEnv("OCR_CACHE_TTL_HOURS", "1");
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 2 * HOUR_MS);
+
+    failNext = true;
+    const result = await performCachedOCR(image, "a.png", "F1", "image/png");
+
+    expect(calls).toHaveLength(2);
+    expect(result.cached).toBeUndefined();
+    expect(await storage.list("ocr-cache/")).toEqual([]);
+  });
+
+  it("should not cache failures or use the cache when disabled", async () => {
+    failNext = true;
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    expect(await storage.list("ocr-cache/")).toEqual([]);
+
+    failNext = false;
+    vi.stubEnv("OCR_CACHE_TTL_HOURS", "0");
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+    await performCachedOCR(image, "a.png", "F1", "image/png");
+
+    expect(calls).toHaveLength(3);
+    expect(await storage.list("ocr-cache/")).toEqual([]);
+  });
+});
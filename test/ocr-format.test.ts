@@ -0,0 +1,349 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatOCRResultsForSlack,
+  formatOCRResultsAsMarkdown,
+  formatOCRResultsAsBlocks,
+} from "../lib/ocr.js";
+
+describe("OCR result formatting", () => {
+  describe("Slack message formatting", () => {
+    it("should format single English result without filename header", () => {
+      const results = [
+        {
+          fileName: "test.png",
+          fileId: "file_001",
+          text: "*Hello World*\nSome content here",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      // Single image should not show filename
+      expect(formatted).not.toContain("*test.png*");
+      expect(formatted).toContain("*Hello World*");
+      expect(formatted).toContain("Some content here");
+      expect(formatted).not.toContain("English Translation");
+    });
+
+    it("should format non-English results with translation", () => {
+      const results = [
+        {
+          fileName: "spanish.png",
+          fileId: "file_002",
+          text: "Hello World",
+          language: "Spanish",
+          translation: "Hello World",
+          originalText: "Hola Mundo",
+          noTextFound: false,
+          contentType: "document" as const,
+        },
+        {
+          fileName: "other.png",
+          fileId: "file_003",
+          text: "Other text",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      // Multiple images should show filenames
+      expect(formatted).toContain("*spanish.png*");
+      expect(formatted).toContain("*English Translation:*");
+      expect(formatted).toContain("Hello World");
+      expect(formatted).toContain("*Original (Spanish):*");
+      expect(formatted).toContain("Hola Mundo");
+    });
+
+    it("should format no text found correctly", () => {
+      const results = [
+        {
+          fileName: "empty.png",
+          fileId: "file_003",
+          text: "",
+          language: "none",
+          noTextFound: true,
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      expect(formatted).toContain("No text found in image");
+    });
+
+    it("should format OCR failures differently from empty images", () => {
+      const results = [
+        {
+          fileName: "broken.png",
+          fileId: "file_005",
+          text: "",
+          language: "unknown",
+          noTextFound: false,
+          error: "the model returned an invalid response 3 times",
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      expect(formatted).toContain("Could not read this image");
+      expect(formatted).toContain("invalid response");
+      expect(formatted).not.toContain("No text found in image");
+    });
+
+    it("should note images processed by a fallback model", () => {
+      const results = [
+        {
+          fileName: "primary.png",
+          fileId: "file_006",
+          text: "Text 1",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+          model: "google/gemini-2.5-flash",
+          attempts: 1,
+        },
+        {
+          fileName: "fallback.png",
+          fileId: "file_007",
+          text: "Text 2",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+          model: "google/gemini-2.0-flash",
+          attempts: 4,
+          usedFallbackModel: true,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      expect(formatted).toContain("fallback model");
+      expect(formatted).toContain("fallback.png (google/gemini-2.0-flash)");
+      expect(formatted).not.toContain("primary.png (");
+    });
+
+    it("should format multiple results with separator and headers", () => {
+      const results = [
+        {
+          fileName: "test1.png",
+          fileId: "file_001",
+          text: "Text 1",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+        },
+        {
+          fileName: "test2.png",
+          fileId: "file_002",
+          text: "Text 2",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      // Multiple images should show filenames
+      expect(formatted).toContain("*test1.png*");
+      expect(formatted).toContain("*test2.png*");
+      expect(formatted).toContain("---");
+    });
+
+    it("should list identical images collapsed into one result", () => {
+      const results = [
+        {
+          fileName: "first.png",
+          fileId: "file_008",
+          text: "Shared text",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+          duplicateFileNames: ["copy.png"],
+        },
+        {
+          fileName: "other.png",
+          fileId: "file_009",
+          text: "Other text",
+          language: "English",
+          noTextFound: false,
+          contentType: "other" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      expect(formatted).toContain("*first.png* _(same image as copy.png)_");
+      expect(formatted.match(/Shared text/g)).toHaveLength(1);
+    });
+
+    it("should handle empty results array", () => {
+      const formatted = formatOCRResultsForSlack([]);
+      expect(formatted).toContain("No images found");
+    });
+
+    it("should pass through Slack-formatted text directly", () => {
+      const results = [
+        {
+          fileName: "screenshot.png",
+          fileId: "file_004",
+          text: "*Dashboard*\n\n*Status:* Active\n\n*Items*\n• Item 1\n• Item 2\n\n```\nlog entry here\n```",
+          language: "English",
+          noTextFound: false,
+          contentType: "website" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results);
+
+      // Single image, no filename header
+      expect(formatted).not.toContain("*screenshot.png*");
+      // Slack formatting should be preserved
+      expect(formatted).toContain("*Dashboard*");
+      expect(formatted).toContain("*Status:* Active");
+      expect(formatted).toContain("• Item 1");
+      expect(formatted).toContain("```");
+    });
+
+    it("should omit originals in translate-only mode", () => {
+      const results = [
+        {
+          fileName: "spanish.png",
+          fileId: "file_005",
+          text: "Hello World",
+          language: "Spanish",
+          translation: "Hello World",
+          originalText: "Hola Mundo",
+          noTextFound: false,
+          contentType: "document" as const,
+        },
+        {
+          fileName: "english.png",
+          fileId: "file_006",
+          text: "Already English",
+          language: "English",
+          noTextFound: false,
+          contentType: "document" as const,
+        },
+      ];
+
+      const formatted = formatOCRResultsForSlack(results, { translationOnly: true });
+
+      expect(formatted).toContain("*English Translation:*\nHello World");
+      expect(formatted).not.toContain("Hola Mundo");
+      expect(formatted).toContain("_Already in English; nothing to translate._");
+    });
+
+    it("should export results as Markdown", () => {
+      const markdown = formatOCRResultsAsMarkdown([
+        {
+          fileName: "spanish.png",
+          fileId: "file_005",
+          text: "Hello World",
+          language: "Spanish",
+          translation: "Hello World",
+          originalText: "Hola Mundo",
+          noTextFound: false,
+          contentType: "document",
+        },
+      ]);
+
+      expect(markdown).toContain("## spanish.png");
+      expect(markdown).toContain("### English translation\n\nHello World");
+      expect(markdown).toContain("### Original (Spanish)\n\nHola Mundo");
+    });
+  });
+
+  describe("Slack Block Kit formatting", () => {
+    const context = { channel: "C123", threadTs: "1700000000.000100" };
+
+    it("should render a linked section, context and actions per image", () => {
+      const results = [
+        {
+          fileName: "spanish.png",
+          fileId: "file_010",
+          text: "Hello World",
+          language: "Spanish",
+          translation: "Hello World",
+          originalText: "Hola Mundo",
+          noTextFound: false,
+          contentType: "document" as const,
+        },
+      ];
+
+      const blocks = formatOCRResultsAsBlocks(results, {
+        ...context,
+        sourceLinks: { file_010: "https://acme.slack.com/archives/C123/p1" },
+      });
+
+      expect(blocks).not.toBeNull();
+      const json = JSON.stringify(blocks);
+      expect(json).toContain("<https://acme.slack.com/archives/C123/p1|spanish.png>");
+      expect(json).toContain("Language: Spanish");
+      expect(json).toContain("ocr_show_original");
+      expect(json).toContain("ocr_rerun");
+      expect(json).toContain("ocr_download");
+    });
+
+    it("should only offer Show original for translated results", () => {
+      const blocks = formatOCRResultsAsBlocks(
+        [
+          {
+            fileName: "english.png",
+            fileId: "file_011",
+            text: "Hello",
+            language: "English",
+            noTextFound: false,
+            contentType: "other" as const,
+          },
+        ],
+        context
+      );
+
+      expect(JSON.stringify(blocks)).not.toContain("ocr_show_original");
+    });
+
+    it("should return null when results exceed the block limit", () => {
+      const results = Array.from({ length: 20 }, (_, i) => ({
+        fileName: `image${i}.png`,
+        fileId: `file_${i}`,
+        text: "Text",
+        language: "English",
+        noTextFound: false,
+        contentType: "other" as const,
+      }));
+
+      expect(formatOCRResultsAsBlocks(results, context)).toBeNull();
+    });
+
+    it("should count notes toward the block limit", () => {
+      // Five blocks per result, less the first divider: 49 blocks
+      const results = Array.from({ length: 10 }, (_, i) => ({
+        fileName: `image${i}.png`,
+        fileId: `file_${i}`,
+        text: "Text",
+        language: "English",
+        noTextFound: false,
+        contentType: "other" as const,
+      }));
+
+      const blocks = formatOCRResultsAsBlocks(results, { ...context, notes: ["_Read 12 messages._"] });
+      expect(blocks).toHaveLength(50);
+      expect(blocks?.[49]).toEqual({
+        type: "context",
+        elements: [{ type: "mrkdwn", text: "_Read 12 messages._" }],
+      });
+
+      expect(
+        formatOCRResultsAsBlocks(results, { ...context, notes: ["_Read 12 messages._", "_Cancelled._"] })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { performOCR } from "../lib/ocr.js";
+import {
+  getOCRProvider,
+  setOCRProvider,
+  type OCRProvider,
+} from "../lib/ocr-provider.js";
+import { createMockProvider } from "../lib/providers/mock.js";
+
+describe("OCR providers", () => {
+  afterEach(() => {
+    setOCRProvider(null);
+    delete process.env.OCR_PROVIDER;
+  });
+
+  describe("mock provider", () => {
+    const provider = createMockProvider("test/fixtures/metadata.json");
+
+    it("should return fixture text for English images", async () => {
+      const result = await provider.recognize({
+        imageBuffer: Buffer.alloc(0),
+        fileName: "01_english_simple.png",
+        fileId: "file_001",
+        mimeType: "image/png",
+      });
+
+      expect(result.noTextFound).toBe(false);
+      expect(result.language).toBe("English");
+      expect(result.text).toContain("Hello World");
+      expect(result.originalText).toBeUndefined();
+    });
+
+    it("should keep the original text for non-English images", async () => {
+      const result = await provider.recognize({
+        imageBuffer: Buffer.alloc(0),
+        fileName: "03_spanish.png",
+        fileId: "file_003",
+        mimeType: "image/png",
+      });
+
+      expect(result.noTextFound).toBe(false);
+      expect(result.language).toBe("Spanish");
+      expect(result.originalText).toContain("Hola Mundo");
+    });
+
+    it("should treat text already in the target language as untranslated", async () => {
+      const result = await provider.recognize({
+        imageBuffer: Buffer.alloc(0),
+        fileName: "05_german.png",
+        fileId: "file_005",
+        mimeType: "image/png",
+        targetLanguage: "German",
+      });
+
+      expect(result.targetLanguage).toBe("German");
+      expect(result.originalText).toBeUndefined();
+      expect(result.text).toContain("Guten Tag");
+    });
+
+    it("should report no text for unknown images", async () => {
+      const result = await provider.recognize({
+        imageBuffer: Buffer.alloc(0),
+        fileName: "unknown.png",
+        fileId: "file_999",
+        mimeType: "image/png",
+      });
+
+      expect(result.noTextFound).toBe(true);
+      expect(result.fileId).toBe("file_999");
+    });
+  });
+
+  describe("provider selection", () => {
+    it("should pick the provider named by OCR_PROVIDER", () => {
+      process.env.OCR_PROVIDER = "mock";
+      expect(getOCRProvider().name).toBe("mock");
+    });
+
+    it("should reject unknown provider names", () => {
+      expect(() => getOCRProvider("nope")).toThrow(/Unknown OCR provider/);
+    });
+
+    it("should route performOCR through the configured provider", async () => {
+      const provider: OCRProvider = {
+        name: "stub",
+        version: "stub:1",
+        recognize: async ({ fileName, fileId }) => ({
+          fileName,
+          fileId,
+          text: "stubbed",
+          language: "English",
+          noTextFound: false,
+          contentType: "other",
+        }),
+      };
+      setOCRProvider(provider);
+
+      const result = await performOCR(Buffer.alloc(0), "a.png", "file_a", "image/png");
+      expect(result.text).toBe("stubbed");
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll } from "vitest";
 import * as fs from "fs";
 import * as path from "path";
-import { performOCR, formatOCRResultsForSlack } from "../lib/ocr.js";
+import { performOCR } from "../lib/ocr.js";
 
 // Load environment variables from .env.local
 function loadEnv() {
@@ -59,7 +59,7 @@ describe("OCR E2E Tests", () => {
       expect(result.language.toLowerCase()).toContain("english");
       expect(result.text.toLowerCase()).toContain("hello");
       expect(result.text.toLowerCase()).toContain("world");
-      expect(result.englishTranslation).toBeUndefined(); // Already English
+      expect(result.translation).toBeUndefined(); // Already English
     }, 30000);
 
     it("should extract multi-line English notes", async () => {
@@ -127,8 +127,8 @@ describe("OCR E2E Tests", () => {
       expect(result.language.toLowerCase()).toContain("spanish");
       expect(result.originalText).toBeDefined();
       expect(result.originalText?.toLowerCase()).toContain("hola");
-      expect(result.englishTranslation).toBeDefined();
-      expect(result.englishTranslation?.toLowerCase()).toContain("hello");
+      expect(result.translation).toBeDefined();
+      expect(result.translation?.toLowerCase()).toContain("hello");
     }, 30000);
 
     it("should extract French text and translate to English", async () => {
@@ -146,7 +146,7 @@ describe("OCR E2E Tests", () => {
       expect(result.language.toLowerCase()).toContain("french");
       expect(result.originalText).toBeDefined();
       expect(result.originalText?.toLowerCase()).toContain("bonjour");
-      expect(result.englishTranslation).toBeDefined();
+      expect(result.translation).toBeDefined();
     }, 30000);
 
     it("should extract German text and translate to English", async () => {
@@ -217,132 +217,4 @@ describe("OCR E2E Tests", () => {
       expect(result.originalText?.toLowerCase()).toContain("hallo");
     }, 30000);
   });
-
-  describe("Slack message formatting", () => {
-    it("should format single English result without filename header", () => {
-      const results = [
-        {
-          fileName: "test.png",
-          fileId: "file_001",
-          text: "*Hello World*\nSome content here",
-          language: "English",
-          noTextFound: false,
-          contentType: "other" as const,
-        },
-      ];
-
-      const formatted = formatOCRResultsForSlack(results);
-
-      // Single image should not show filename
-      expect(formatted).not.toContain("*test.png*");
-      expect(formatted).toContain("*Hello World*");
-      expect(formatted).toContain("Some content here");
-      expect(formatted).not.toContain("English Translation");
-    });
-
-    it("should format non-English results with translation", () => {
-      const results = [
-        {
-          fileName: "spanish.png",
-          fileId: "file_002",
-          text: "Hello World",
-          language: "Spanish",
-          englishTranslation: "Hello World",
-          originalText: "Hola Mundo",
-          noTextFound: false,
-          contentType: "document" as const,
-        },
-        {
-          fileName: "other.png",
-          fileId: "file_003",
-          text: "Other text",
-          language: "English",
-          noTextFound: false,
-          contentType: "other" as const,
-        },
-      ];
-
-      const formatted = formatOCRResultsForSlack(results);
-
-      // Multiple images should show filenames
-      expect(formatted).toContain("*spanish.png*");
-      expect(formatted).toContain("*English Translation:*");
-      expect(formatted).toContain("Hello World");
-      expect(formatted).toContain("*Original (Spanish):*");
-      expect(formatted).toContain("Hola Mundo");
-    });
-
-    it("should format no text found correctly", () => {
-      const results = [
-        {
-          fileName: "empty.png",
-          fileId: "file_003",
-          text: "",
-          language: "none",
-          noTextFound: true,
-          contentType: "other" as const,
-        },
-      ];
-
-      const formatted = formatOCRResultsForSlack(results);
-
-      expect(formatted).toContain("No text found in image");
-    });
-
-    it("should format multiple results with separator and headers", () => {
-      const results = [
-        {
-          fileName: "test1.png",
-          fileId: "file_001",
-          text: "Text 1",
-          language: "English",
-          noTextFound: false,
-          contentType: "other" as const,
-        },
-        {
-          fileName: "test2.png",
-          fileId: "file_002",
-          text: "Text 2",
-          language: "English",
-          noTextFound: false,
-          contentType: "other" as const,
-        },
-      ];
-
-      const formatted = formatOCRResultsForSlack(results);
-
-      // Multiple images should show filenames
-      expect(formatted).toContain("*test1.png*");
-      expect(formatted).toContain("*test2.png*");
-      expect(formatted).toContain("---");
-    });
-
-    it("should handle empty results array", () => {
-      const formatted = formatOCRResultsForSlack([]);
-      expect(formatted).toContain("No images found");
-    });
-
-    it("should pass through Slack-formatted text directly", () => {
-      const results = [
-        {
-          fileName: "screenshot.png",
-          fileId: "file_004",
-          text: "*Dashboard*\n\n*Status:* Active\n\n*Items*\n• Item 1\n• Item 2\n\n```\nlog entry here\n```",
-          language: "English",
-          noTextFound: false,
-          contentType: "website" as const,
-        },
-      ];
-
-      const formatted = formatOCRResultsForSlack(results);
-
-      // Single image, no filename header
-      expect(formatted).not.toContain("*screenshot.png*");
-      // Slack formatting should be preserved
-      expect(formatted).toContain("*Dashboard*");
-      expect(formatted).toContain("*Status:* Active");
-      expect(formatted).toContain("• Item 1");
-      expect(formatted).toContain("```");
-    });
-  });
 });
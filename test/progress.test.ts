@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { ErrorCode } from "@slack/web-api";
+import { createProgressReporter, formatProgress } from "../lib/progress.js";
+import { sleep } from "../lib/retry.js";
+
+describe("Progress reporter", () => {
+  it("should format a bar, counts and ETA", () => {
+    expect(formatProgress(5, 20, 45_000)).toBe(
+      "Processing images... `[█████░░░░░░░░░░░░░░░]` 5 of 20 (25%) · about 45s left"
+    );
+    expect(formatProgress(20, 20, 0)).not.toContain("left");
+  });
+
+  it("should merge updates into at most one per interval", async () => {
+    const sent: string[] = [];
+    const progress = createProgressReporter(
+      async (text) => {
+        sent.push(text);
+      },
+      { intervalMs: 50 }
+    );
+
+    for (let completed = 1; completed <= 10; completed++) {
+      progress.update(completed, 10);
+    }
+    await sleep(80);
+    await progress.stop();
+
+    // The first update goes out immediately; the rest collapse into the latest
+    expect(sent).toHaveLength(2);
+    expect(sent[0]).toContain("1 of 10");
+    expect(sent[1]).toContain("10 of 10");
+  });
+
+  it("should back off when rate limited and keep the latest progress", async () => {
+    const sentAt: number[] = [];
+    let calls = 0;
+    const progress = createProgressReporter(
+      async () => {
+        calls++;
+        if (calls === 1) {
+          throw Object.assign(new Error("ratelimited"), {
+            code: ErrorCode.RateLimitedError,
+            retryAfter: 0.1,
+          });
+        }
+        sentAt.push(Date.now());
+      },
+      { intervalMs: 10 }
+    );
+
+    const start = Date.now();
+    progress.update(1, 3);
+    await sleep(160);
+    await progress.stop();
+
+    expect(calls).toBe(2);
+    expect(sentAt[0] - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it("should not send after stop and not throw on failed updates", async () => {
+    let calls = 0;
+    const progress = createProgressReporter(
+      async () => {
+        calls++;
+        throw new Error("channel_not_found");
+      },
+      { intervalMs: 50 }
+    );
+
+    progress.update(1, 3);
+    progress.update(2, 3);
+    await expect(progress.stop()).resolves.toBeUndefined();
+    await sleep(70);
+
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { getReactionTrigger, getReactionTriggers } from "../lib/reactions.js";
+
+describe("Reaction triggers", () => {
+  afterEach(() => {
+    delete process.env.OCR_REACTIONS;
+  });
+
+  it("should default to :mag: for OCR and :mag_right: for force", () => {
+    expect(getReactionTrigger("mag")).toMatchObject({ force: false });
+    expect(getReactionTrigger("mag_right")).toMatchObject({ force: true });
+    expect(getReactionTrigger("thumbsup")).toBeNull();
+  });
+
+  it("should map configured emoji to mention options", () => {
+    const triggers = getReactionTriggers(
+      ":eyes:,speech_balloon:translate-only,flag-de:lang=de force"
+    );
+
+    expect(triggers.get("eyes")).toMatchObject({ force: false, translationOnly: false });
+    expect(triggers.get("speech_balloon")).toMatchObject({ translationOnly: true });
+    expect(triggers.get("flag-de")).toMatchObject({ targetLanguage: "de", force: true });
+  });
+
+  it("should skip entries with invalid options", () => {
+    const triggers = getReactionTriggers("mag:,bad:lang=xx,worse:status");
+    expect([...triggers.keys()]).toEqual(["mag"]);
+  });
+
+  it("should treat skin tone variants as the base emoji", () => {
+    process.env.OCR_REACTIONS = "point_up:force";
+    expect(getReactionTrigger("point_up::skin-tone-3")).toMatchObject({ force: true });
+  });
+});
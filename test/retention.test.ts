@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { getRetentionPolicies, cleanupExpiredObjects } from "../lib/retention.js";
+import { setStorage, type StorageBackend, type StorageEntry } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Retention policies", () => {
+  it("should default to the job, debug, diagnostics, event, log, cache and processed prefixes", () => {
+    expect(getRetentionPolicies("")).toEqual([
+      { prefix: "cancellations/", days: 30 },
+      { prefix: "debug/", days: 7 },
+      { prefix: "diagnostics/", days: 14 },
+      { prefix: "events/", days: 2 },
+      { prefix: "jobs/", days: 90 },
+      { prefix: "logs/", days: 30 },
+      { prefix: "ocr-cache/", days: 7 },
+      { prefix: "processed/", days: 90 },
+    ]);
+  });
+
+  it("should override, add and disable prefixes", () => {
+    const policies = getRetentionPolicies("debug=1, jobs/=30,processed=0");
+    expect(policies).toContainEqual({ prefix: "debug/", days: 1 });
+    expect(policies).toContainEqual({ prefix: "jobs/", days: 30 });
+    expect(policies.map((policy) => policy.prefix)).not.toContain("processed/");
+  });
+
+  it("should skip invalid entries", () => {
+    const policies = getRetentionPolicies("logs=forever,debug=2");
+    expect(policies).toContainEqual({ prefix: "logs/", days: 30 });
+    expect(policies).toContainEqual({ prefix: "debug/", days: 2 });
+  });
+});
+
+describe("Cleanup", () => {
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    setStorage(storage);
+    await storage.put("debug/1.json", "{}");
+    await storage.put("logs/2026-10-01/a.json", "{}");
+    await storage.put("processed/C1_1.000001/F1.json", "{}");
+    await storage.put("settings/C1.json", "{}");
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("should delete only objects past their prefix's retention", async () => {
+    const { reports, complete } = await cleanupExpiredObjects({ now: Date.now() + 10 * DAY_MS });
+
+    expect(complete).toBe(true);
+    expect(reports.find((report) => report.prefix === "debug/")).toMatchObject({
+      scanned: 1,
+      expired: 1,
+      deleted: 1,
+    });
+    expect(reports.find((report) => report.prefix === "logs/")).toMatchObject({ deleted: 0 });
+    expect((await storage.list("")).map((entry) => entry.key)).toEqual([
+      "logs/2026-10-01/a.json",
+      "processed/C1_1.000001/F1.json",
+      "settings/C1.json",
+    ]);
+  });
+
+  it("should only report expired objects on a dry run", async () => {
+    const { reports } = await cleanupExpiredObjects({
+      now: Date.now() + 100 * DAY_MS,
+      dryRun: true,
+    });
+
+    expect(reports.map((report) => [report.prefix, report.expired, report.deleted])).toEqual([
+      ["cancellations/", 0, 0],
+      ["debug/", 1, 0],
+      ["diagnostics/", 0, 0],
+      ["events/", 0, 0],
+      ["jobs/", 0, 0],
+      ["logs/", 1, 0],
+      ["ocr-cache/", 0, 0],
+      ["processed/", 1, 0],
+    ]);
+    expect(await storage.list("")).toHaveLength(4);
+  });
+
+  it("should migrate legacy objects before cleanup, dropping those already expired", async () => {
+    const legacy = (key: string, ageDays: number): StorageEntry => ({
+      key,
+      metadata: {
+        contentType: "application/json",
+        size: 2,
+        uploadedAt: new Date(Date.now() - ageDays * DAY_MS),
+        url: `https://store.public.blob.vercel-storage.com/${key}`,
+      },
+    });
+    const kept: string[] = [];
+    setStorage({
+      ...storage,
+      async migrateLegacyObjects(keep) {
+        const entries = [legacy("debug/old.json", 8), legacy("logs/recent.json", 1), legacy("settings/C1.json", 400)];
+        kept.push(...entries.filter(keep).map((entry) => entry.key));
+        return { migrated: kept.length, deleted: entries.length - kept.length, complete: true };
+      },
+    });
+
+    const { migration, complete } = await cleanupExpiredObjects();
+
+    expect(kept).toEqual(["logs/recent.json", "settings/C1.json"]);
+    expect(migration).toEqual({ migrated: 2, deleted: 1, complete: true });
+    expect(complete).toBe(true);
+  });
+
+  it("should only migrate until a run completes", async () => {
+    const runs: boolean[] = [false, true];
+    let calls = 0;
+    setStorage({
+      ...storage,
+      async migrateLegacyObjects() {
+        return { migrated: 1, deleted: 0, complete: runs[calls++] };
+      },
+    });
+
+    expect((await cleanupExpiredObjects()).complete).toBe(false);
+    expect((await cleanupExpiredObjects()).migration).toMatchObject({ complete: true });
+    expect((await cleanupExpiredObjects()).migration).toBeUndefined();
+    expect(calls).toBe(2);
+  });
+
+  it("should not migrate on a dry run", async () => {
+    let migrated = false;
+    setStorage({
+      ...storage,
+      async migrateLegacyObjects() {
+        migrated = true;
+        return { migrated: 0, deleted: 0, complete: true };
+      },
+    });
+
+    expect((await cleanupExpiredObjects({ dryRun: true })).migration).toBeUndefined();
+    expect(migrated).toBe(false);
+  });
+});
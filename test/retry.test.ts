@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { withRetry, backoffDelay, parseRetryAfter } from "../lib/retry.js";
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+describe("withRetry", () => {
+  it("should retry retryable errors until success", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) {
+          throw new Error("rate limited");
+        }
+        return "ok";
+      },
+      policy,
+      { isRetryable: () => true }
+    );
+
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("should stop on non-retryable errors", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("bad request");
+        },
+        policy,
+        { isRetryable: () => false }
+      )
+    ).rejects.toThrow("bad request");
+    expect(calls).toBe(1);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("still down");
+        },
+        policy,
+        { isRetryable: () => true }
+      )
+    ).rejects.toThrow("still down");
+    expect(calls).toBe(3);
+  });
+
+  it("should prefer the server-provided retry delay", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    await withRetry(
+      async () => {
+        if (++calls === 1) {
+          throw new Error("429");
+        }
+      },
+      policy,
+      {
+        isRetryable: () => true,
+        getRetryAfterMs: () => 2,
+        onRetry: (_error, _attempt, delayMs) => delays.push(delayMs),
+      }
+    );
+    expect(delays).toEqual([2]);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("should stay within the exponential ceiling", () => {
+    const wide = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    for (let i = 0; i < 20; i++) {
+      expect(backoffDelay(1, wide)).toBeLessThan(100);
+      expect(backoffDelay(3, wide)).toBeLessThan(400);
+      expect(backoffDelay(10, wide)).toBeLessThan(1000);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and ignore garbage", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setStorage } from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { setOCRProvider } from "../lib/ocr-provider.js";
+import { createMockProvider } from "../lib/providers/mock.js";
+import { processThread, repostResults, exportResults } from "../lib/process-thread.js";
+import { createFakeSlackClient, imageMessage } from "./helpers/slack.js";
+
+const slack = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("../lib/slack.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/slack.js")>()),
+  getSlackClient: () => slack.current,
+  getFailFastSlackClient: () => slack.current,
+  downloadImage: async (url: string) => Buffer.from(url),
+}));
+
+const THREAD = "1.000001";
+
+describe("Saved results", () => {
+  let fake: ReturnType<typeof createFakeSlackClient>;
+
+  beforeEach(() => {
+    vi.stubEnv("SLACK_BOT_TOKEN", "xoxb-test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setStorage(createMemoryStorage());
+    setOCRProvider(createMockProvider());
+    fake = createFakeSlackClient({
+      [THREAD]: [
+        imageMessage(THREAD, "UALICE", ["01_english_simple.png"]),
+        imageMessage("1.000002", "UBOB", ["03_spanish.png"]),
+      ],
+    });
+    slack.current = fake.client;
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    setOCRProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should say when a thread has no saved results", async () => {
+    expect(await repostResults("C1", THREAD)).toContain("don't have any saved results");
+    expect(await exportResults("C1", THREAD, "markdown")).toContain("don't have any saved results");
+    expect(fake.posted).toEqual([]);
+    expect(fake.uploaded).toEqual([]);
+  });
+
+  it("should repost saved results in thread order after an image is re-run", async () => {
+    await processThread("C1", THREAD);
+    await processThread("C1", THREAD, { force: true, messageTs: THREAD });
+
+    expect(await repostResults("C1", THREAD)).toBe("Reposted saved results for 2 images.");
+
+    const repost = fake.posted[fake.posted.length - 1];
+    expect(repost.threadTs).toBe(THREAD);
+    expect(repost.text.indexOf("Hello World!")).toBeLessThan(repost.text.indexOf("Hola Mundo"));
+    expect(JSON.stringify(repost.blocks)).toContain("Reposted from saved results.");
+  });
+
+  it("should export saved results as Markdown or JSON", async () => {
+    await processThread("C1", THREAD);
+    await processThread("C1", THREAD, { force: true, messageTs: THREAD });
+
+    expect(await exportResults("C1", THREAD, "markdown")).toBe(
+      `Exported 2 results as \`ocr-results-${THREAD}.md\`.`
+    );
+    expect(await exportResults("C1", THREAD, "json")).toBe(
+      `Exported 2 results as \`ocr-results-${THREAD}.json\`.`
+    );
+
+    const [markdown, json] = fake.uploaded;
+    expect(markdown).toMatchObject({ channel: "C1", threadTs: THREAD });
+    expect(markdown.content.indexOf("## 01_english_simple.png")).toBeLessThan(
+      markdown.content.indexOf("## 03_spanish.png")
+    );
+    const exported = JSON.parse(json.content);
+    expect(exported).toMatchObject({ channel: "C1", threadTs: THREAD });
+    expect(exported.results.map((result: { fileId: string }) => result.fileId)).toEqual([
+      "F_01_english_simple.png",
+      "F_03_spanish.png",
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { ErrorCode, type WebClient } from "@slack/web-api";
+import {
+  compareTs,
+  filterImages,
+  findImagesInThread,
+  getThreadMessages,
+  type SlackMessage,
+} from "../lib/slack.js";
+
+const image = (id: string) => ({ id, name: `${id}.png`, mimetype: "image/png" });
+
+const messages: SlackMessage[] = [
+  { ts: "1712345600.000100", user: "U1", files: [image("a"), image("b")] },
+  { ts: "1712345650.000200", user: "U2", files: [image("c")] },
+  { ts: "1712345700.000300", user: "U1", text: "no files" },
+  {
+    ts: "1712345800.000400",
+    user: "U2",
+    files: [image("d"), { id: "pdf", name: "doc.pdf", mimetype: "application/pdf" }],
+  },
+];
+
+describe("Thread image selection", () => {
+  const images = findImagesInThread(messages);
+
+  it("should find images with their message and uploader", () => {
+    expect(images.map((img) => img.id)).toEqual(["a", "b", "c", "d"]);
+    expect(images[2]).toMatchObject({ user: "U2", message_ts: "1712345650.000200" });
+  });
+
+  it("should keep only the last N images", () => {
+    expect(filterImages(images, { last: 2 }).map((img) => img.id)).toEqual(["c", "d"]);
+  });
+
+  it("should filter by message, uploader and position", () => {
+    expect(filterImages(images, { messageTs: "1712345600.000100" }).map((img) => img.id)).toEqual(["a", "b"]);
+    expect(filterImages(images, { fromUser: "U2" }).map((img) => img.id)).toEqual(["c", "d"]);
+    expect(filterImages(images, { afterTs: "1712345650.000200" }).map((img) => img.id)).toEqual(["d"]);
+  });
+
+  it("should apply last after the other filters", () => {
+    expect(filterImages(images, { fromUser: "U1", last: 1 }).map((img) => img.id)).toEqual(["b"]);
+  });
+
+  it("should compare timestamps without rounding", () => {
+    expect(compareTs("1712345678.901235", "1712345678.901234")).toBeGreaterThan(0);
+    expect(compareTs("1712345678.901234", "1712345678.901234")).toBe(0);
+    expect(compareTs("999999999.999999", "1000000000.000000")).toBeLessThan(0);
+  });
+});
+
+describe("getThreadMessages", () => {
+  it("should follow cursors, skip the repeated parent and retry rate limits", async () => {
+    const parent = { ts: "1.000001" };
+    const pages: Record<string, { messages: SlackMessage[]; next?: string }> = {
+      first: { messages: [parent, { ts: "2.000001" }], next: "page2" },
+      page2: { messages: [parent, { ts: "3.000001" }] },
+    };
+    const cursors: (string | undefined)[] = [];
+    let rateLimited = false;
+
+    const client = {
+      conversations: {
+        replies: async ({ cursor }: { cursor?: string }) => {
+          if (cursor === "page2" && !rateLimited) {
+            rateLimited = true;
+            throw Object.assign(new Error("rate limited"), {
+              code: ErrorCode.RateLimitedError,
+              retryAfter: 0,
+            });
+          }
+          cursors.push(cursor);
+          const page = pages[cursor ?? "first"];
+          return {
+            messages: page.messages,
+            response_metadata: { next_cursor: page.next ?? "" },
+          };
+        },
+      },
+    } as unknown as WebClient;
+
+    const messages = await getThreadMessages(client, "C1", "1.000001");
+
+    expect(messages.map((message) => message.ts)).toEqual(["1.000001", "2.000001", "3.000001"]);
+    expect(cursors).toEqual([undefined, "page2"]);
+    expect(rateLimited).toBe(true);
+  });
+});
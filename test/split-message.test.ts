@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { splitMessage } from "../lib/split-message.js";
+import { RESULT_SEPARATOR } from "../lib/ocr.js";
+
+function countFences(text: string): number {
+  return text.split("```").length - 1;
+}
+
+describe("splitMessage", () => {
+  it("should keep short output in one message", () => {
+    const messages = splitMessage(["first image", "second image"], 1000);
+    expect(messages).toEqual([`first image${RESULT_SEPARATOR}second image`]);
+  });
+
+  it("should split between images before splitting inside one", () => {
+    const sections = ["a".repeat(60), "b".repeat(60), "c".repeat(60)];
+    const messages = splitMessage(sections, 100);
+
+    expect(messages).toEqual(sections);
+  });
+
+  it("should split a long image on paragraph boundaries", () => {
+    const paragraphs = ["one ".repeat(10).trim(), "two ".repeat(10).trim(), "three ".repeat(10).trim()];
+    const messages = splitMessage([paragraphs.join("\n\n")], 100);
+
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(100);
+    }
+    expect(messages.join("\n\n")).toBe(paragraphs.join("\n\n"));
+  });
+
+  it("should never split inside a code block", () => {
+    const code = "```\n" + Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n") + "\n```";
+    const messages = splitMessage([`Intro paragraph\n\n${code}\n\nOutro`], 120);
+
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(120);
+      expect(countFences(message) % 2).toBe(0);
+    }
+    expect(messages.join("\n")).toContain("line 29");
+  });
+
+  it("should close and reopen a code block that starts after a header line", () => {
+    const code = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+    const messages = splitMessage([`*Header*\n\`\`\`\n${code}\n\`\`\``], 120);
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(messages[0].startsWith("*Header*\n```")).toBe(true);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(120);
+      expect(countFences(message) % 2).toBe(0);
+    }
+    const lines = messages.join("\n").split("\n").filter((line) => line.startsWith("line "));
+    expect(lines).toEqual(code.split("\n"));
+  });
+
+  it("should keep blank lines inside code blocks with the block", () => {
+    const code = "```\nfirst\n\nsecond\n```";
+    const messages = splitMessage(["x".repeat(50), `${code}\n\n${"y".repeat(50)}`], 60);
+
+    expect(messages).toContain(code);
+  });
+
+  it("should cut lines longer than the limit", () => {
+    const messages = splitMessage(["z".repeat(250)], 100);
+
+    expect(messages).toHaveLength(3);
+    expect(messages.join("")).toBe("z".repeat(250));
+  });
+});
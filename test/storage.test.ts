@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  getStorage,
+  setStorage,
+  readJson,
+  writeJson,
+  StorageConflictError,
+  type StorageBackend,
+} from "../lib/storage.js";
+import { createMemoryStorage } from "../lib/storage/memory.js";
+import { createFilesystemStorage } from "../lib/storage/filesystem.js";
+
+// Both local backends must behave the same
+const backends: { name: string; create: () => Promise<StorageBackend> }[] = [
+  { name: "memory", create: async () => createMemoryStorage() },
+  {
+    name: "filesystem",
+    create: async () =>
+      createFilesystemStorage(await fs.mkdtemp(path.join(os.tmpdir(), "ocr-storage-"))),
+  },
+];
+
+describe.each(backends)("$name storage", ({ create }) => {
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    storage = await create();
+  });
+
+  it("should return null for missing objects", async () => {
+    expect(await storage.get("jobs/missing.json")).toBeNull();
+  });
+
+  it("should round-trip objects with metadata", async () => {
+    const saved = await storage.put("jobs/C1_1.000001.json", '{"ok":true}', {
+      contentType: "application/json",
+    });
+    const object = await storage.get("jobs/C1_1.000001.json");
+
+    expect(saved.key).toBe("jobs/C1_1.000001.json");
+    expect(object?.body).toBe('{"ok":true}');
+    expect(object?.metadata.contentType).toBe("application/json");
+    expect(object?.metadata.size).toBe(11);
+    expect(object?.metadata.uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it("should replace objects on put", async () => {
+    await storage.put("settings/C1.json", "first");
+    await storage.put("settings/C1.json", "second");
+    expect((await storage.get("settings/C1.json"))?.body).toBe("second");
+  });
+
+  it("should only create objects when overwriting isn't allowed", async () => {
+    await storage.put("events/Ev1.json", "first", { allowOverwrite: false });
+    await expect(
+      storage.put("events/Ev1.json", "second", { allowOverwrite: false })
+    ).rejects.toBeInstanceOf(StorageConflictError);
+
+    expect((await storage.get("events/Ev1.json"))?.body).toBe("first");
+    expect((await storage.list("events/")).map((entry) => entry.key)).toEqual(["events/Ev1.json"]);
+  });
+
+  it("should list by key prefix in key order", async () => {
+    await storage.put("processed/C1_1.000001/F2.json", "{}");
+    await storage.put("processed/C1_1.000001/F1.json", "{}");
+    await storage.put("processed/C1_1.000001.json", "{}");
+    await storage.put("processed/C2_1.000001/F3.json", "{}");
+
+    const keys = (await storage.list("processed/C1_1.000001/")).map((entry) => entry.key);
+    expect(keys).toEqual(["processed/C1_1.000001/F1.json", "processed/C1_1.000001/F2.json"]);
+
+    const partial = (await storage.list("processed/C1_")).map((entry) => entry.key);
+    expect(partial).toHaveLength(3);
+    expect(await storage.list("nothing/")).toEqual([]);
+  });
+
+  it("should delete objects and ignore missing keys", async () => {
+    await storage.put("debug/a.json", "{}");
+    await storage.put("debug/b.json", "{}");
+
+    await storage.delete(["debug/a.json", "debug/missing.json"]);
+    await storage.delete("debug/b.json");
+
+    expect(await storage.list("debug/")).toEqual([]);
+  });
+});
+
+describe("Storage selection", () => {
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("should reject unknown backends", () => {
+    expect(() => getStorage("s3")).toThrow(/Unknown storage backend "s3"/);
+  });
+
+  it("should read and write JSON through the configured backend", async () => {
+    setStorage(createMemoryStorage());
+
+    await writeJson("settings/C1.json", { targetLanguage: "German" });
+    expect(await readJson("settings/C1.json")).toEqual({ targetLanguage: "German" });
+    expect(await readJson("settings/C2.json")).toBeNull();
+  });
+});